@@ -6,11 +6,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Lobby from "@/pages/lobby";
 import Game from "@/pages/game";
+import Replay from "@/pages/replay";
+import Watch from "@/pages/watch";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Lobby} />
+      <Route path="/game/:gameId/replay" component={Replay} />
+      <Route path="/game/:gameId/watch" component={Watch} />
       <Route path="/game/:gameId" component={Game} />
       <Route component={NotFound} />
     </Switch>
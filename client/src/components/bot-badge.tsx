@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+import { Bot } from "lucide-react";
+import { BOT_LABELS } from "@shared/bots";
+import type { BotStrategyName } from "@shared/schema";
+
+// Marks a seat played by the server, with its strategy
+export function BotBadge({ strategy }: { strategy: BotStrategyName }) {
+  return (
+    <Badge variant="outline" className="text-xs text-sky-300 border-sky-700">
+      <Bot className="mr-1 h-3 w-3" />
+      {BOT_LABELS[strategy]}
+    </Badge>
+  );
+}
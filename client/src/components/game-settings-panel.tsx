@@ -0,0 +1,224 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { countDeckCards } from "@shared/engine";
+import type { ChallengePenalty, GameSettings, GameVariant } from "@shared/schema";
+
+interface GameSettingsPanelProps {
+  variant: GameVariant;
+  settings: GameSettings;
+  onChange?: (settings: GameSettings) => void;
+  disabled?: boolean;
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+function NumberField({ id, label, value, min, max, onChange, disabled }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-gray-300">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          const parsed = Number.parseInt(e.target.value, 10);
+          if (!Number.isNaN(parsed)) {
+            onChange(Math.min(max, Math.max(min, parsed)));
+          }
+        }}
+        className="bg-[var(--game-secondary)] border-gray-600 text-white"
+      />
+    </div>
+  );
+}
+
+// House rules form, editable by the host and read-only for everyone else
+export function GameSettingsPanel({ variant, settings, onChange, disabled }: GameSettingsPanelProps) {
+  const readOnly = disabled || !onChange;
+  const update = (patch: Partial<GameSettings>) => onChange?.({ ...settings, ...patch });
+  const updateDeck = (patch: Partial<GameSettings["deck"]>) => update({ deck: { ...settings.deck, ...patch } });
+  const deckTooSmall = countDeckCards(variant, settings.deck) < settings.handSize * settings.maxPlayers;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <NumberField
+          id="settings-hand-size"
+          label="Cartes par main"
+          value={settings.handSize}
+          min={1}
+          max={15}
+          onChange={(handSize) => update({ handSize })}
+          disabled={readOnly}
+        />
+        {variant === "menteur" ? (
+          <NumberField
+            id="settings-packs"
+            label="Paquets de 52 cartes"
+            value={settings.deck.packs}
+            min={1}
+            max={3}
+            onChange={(packs) => updateDeck({ packs })}
+            disabled={readOnly}
+          />
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              id="settings-truth-cards"
+              label="Vérités"
+              value={settings.deck.truthCards}
+              min={0}
+              max={60}
+              onChange={(truthCards) => updateDeck({ truthCards })}
+              disabled={readOnly}
+            />
+            <NumberField
+              id="settings-lie-cards"
+              label="Mensonges"
+              value={settings.deck.lieCards}
+              min={0}
+              max={60}
+              onChange={(lieCards) => updateDeck({ lieCards })}
+              disabled={readOnly}
+            />
+          </div>
+        )}
+        <NumberField
+          id="settings-min-players"
+          label="Joueurs minimum"
+          value={settings.minPlayers}
+          min={2}
+          max={settings.maxPlayers}
+          onChange={(minPlayers) => update({ minPlayers })}
+          disabled={readOnly}
+        />
+        <NumberField
+          id="settings-max-players"
+          label="Joueurs maximum"
+          value={settings.maxPlayers}
+          min={settings.minPlayers}
+          max={8}
+          onChange={(maxPlayers) => update({ maxPlayers })}
+          disabled={readOnly}
+        />
+        <NumberField
+          id="settings-turn-timer"
+          label="Temps par tour (s)"
+          value={settings.turnTimer}
+          min={10}
+          max={300}
+          onChange={(turnTimer) => update({ turnTimer })}
+          disabled={readOnly}
+        />
+        <NumberField
+          id="settings-rounds"
+          label="Nombre de manches"
+          value={settings.rounds}
+          min={1}
+          max={10}
+          onChange={(rounds) => update({ rounds })}
+          disabled={readOnly}
+        />
+        <NumberField
+          id="settings-challenge-window"
+          label="Délai pour accuser (s)"
+          value={settings.challengeWindow}
+          min={1}
+          max={30}
+          onChange={(challengeWindow) => update({ challengeWindow })}
+          disabled={readOnly}
+        />
+        <NumberField
+          id="settings-revelation-delay"
+          label="Durée de la révélation (s)"
+          value={settings.revelationDelay}
+          min={1}
+          max={60}
+          onChange={(revelationDelay) => update({ revelationDelay })}
+          disabled={readOnly}
+        />
+        <NumberField
+          id="settings-spectator-delay"
+          label="Retard des spectateurs (s)"
+          value={settings.spectatorDelay}
+          min={0}
+          max={30}
+          onChange={(spectatorDelay) => update({ spectatorDelay })}
+          disabled={readOnly || !settings.allowSpectators}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-300">Le perdant d'une accusation...</Label>
+          <Select
+            value={settings.challengePenalty}
+            onValueChange={(value) => update({ challengePenalty: value as ChallengePenalty })}
+            disabled={readOnly}
+          >
+            <SelectTrigger className="bg-[var(--game-secondary)] border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pile">ramasse la pile</SelectItem>
+              <SelectItem value="fixed">pioche des cartes</SelectItem>
+              <SelectItem value="both">ramasse la pile et pioche</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <NumberField
+          id="settings-penalty-size"
+          label="Cartes de pénalité"
+          value={settings.penaltySize}
+          min={1}
+          max={10}
+          onChange={(penaltySize) => update({ penaltySize })}
+          disabled={readOnly}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="settings-last-card" className="text-sm text-gray-300">
+          La dernière carte peut être contestée avant la victoire
+        </Label>
+        <Switch
+          id="settings-last-card"
+          checked={settings.lastCardChallengeable}
+          onCheckedChange={(lastCardChallengeable) => update({ lastCardChallengeable })}
+          disabled={readOnly}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="settings-allow-spectators" className="text-sm text-gray-300">
+          Autoriser les spectateurs
+        </Label>
+        <Switch
+          id="settings-allow-spectators"
+          checked={settings.allowSpectators}
+          onCheckedChange={(allowSpectators) => update({ allowSpectators })}
+          disabled={readOnly}
+        />
+      </div>
+
+      {deckTooSmall && (
+        <p className="text-xs text-red-400">
+          Le paquet est trop petit pour distribuer {settings.handSize} cartes à {settings.maxPlayers} joueurs.
+        </p>
+      )}
+    </div>
+  );
+}
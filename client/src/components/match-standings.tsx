@@ -0,0 +1,47 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Crown } from "lucide-react";
+import type { MatchState, PublicPlayer } from "@shared/schema";
+
+interface MatchStandingsProps {
+  match: MatchState;
+  players: PublicPlayer[];
+}
+
+// Penalty points per round (cards left in hand) and running totals,
+// best score first
+export function MatchStandings({ match, players }: MatchStandingsProps) {
+  const standings = [...players].sort((a, b) => (match.scores[a.id] ?? 0) - (match.scores[b.id] ?? 0));
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="border-yellow-700/50">
+          <TableHead className="text-yellow-200">Joueur</TableHead>
+          {match.results.map((result) => (
+            <TableHead key={result.round} className="text-yellow-200 text-center">M{result.round}</TableHead>
+          ))}
+          <TableHead className="text-yellow-200 text-right">Total</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {standings.map((player) => (
+          <TableRow key={player.id} className="border-yellow-700/30">
+            <TableCell className="text-yellow-100 font-medium">
+              {player.name}
+              {player.id === match.winnerId && <Crown className="inline ml-2 h-4 w-4 text-yellow-400" />}
+            </TableCell>
+            {match.results.map((result) => (
+              <TableCell
+                key={result.round}
+                className={`text-center ${result.winnerId === player.id ? "text-[var(--game-success)] font-bold" : "text-yellow-100"}`}
+              >
+                {result.penalties[player.id] ?? "-"}
+              </TableCell>
+            ))}
+            <TableCell className="text-right text-yellow-300 font-bold">{match.scores[player.id] ?? 0}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
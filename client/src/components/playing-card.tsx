@@ -0,0 +1,71 @@
+import { Check, X, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isRankedCard, SUIT_SYMBOLS } from "@shared/cards";
+import type { Card } from "@shared/schema";
+
+interface PlayingCardProps {
+  card: Card;
+  size?: "md" | "lg";
+  selected?: boolean;
+  disabled?: boolean;
+  onClick?: () => void;
+}
+
+const sizeClasses = {
+  md: "w-20 h-28",
+  lg: "w-32 h-44",
+};
+
+export function PlayingCard({ card, size = "md", selected, disabled, onClick }: PlayingCardProps) {
+  const ranked = isRankedCard(card);
+  const red = ranked && (card.suit === "hearts" || card.suit === "diamonds");
+
+  return (
+    <div
+      onClick={onClick}
+      className={cn(
+        "flex-shrink-0 rounded-lg border-2 transform transition-all shadow-lg relative group",
+        sizeClasses[size],
+        onClick && "cursor-pointer",
+        ranked
+          ? "bg-gradient-to-br from-white to-gray-200 border-gray-400"
+          : card.type === "truth"
+            ? "bg-gradient-to-br from-[var(--truth-card)] to-emerald-600 border-emerald-500"
+            : "bg-gradient-to-br from-[var(--lie-card)] to-red-600 border-red-500",
+        selected ? "ring-2 ring-amber-400 border-amber-400 scale-105" : onClick && "hover:scale-105",
+        disabled && "opacity-50 cursor-not-allowed"
+      )}
+    >
+      {ranked ? (
+        <div className={cn(
+          "absolute inset-0 flex flex-col items-center justify-center font-bold",
+          red ? "text-red-600" : "text-gray-900"
+        )}>
+          <span className={size === "lg" ? "text-4xl" : "text-2xl"}>{card.rank}</span>
+          <span className={size === "lg" ? "text-3xl" : "text-xl"}>{SUIT_SYMBOLS[card.suit]}</span>
+        </div>
+      ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+          {card.type === "truth" ? (
+            <Check className={size === "lg" ? "text-4xl mb-3" : "text-lg mb-1"} />
+          ) : (
+            <X className={size === "lg" ? "text-4xl mb-3" : "text-lg mb-1"} />
+          )}
+          <span className={size === "lg" ? "text-lg font-bold" : "text-xs font-bold"}>
+            {card.type === "truth" ? "VÉRITÉ" : "MENSONGE"}
+          </span>
+        </div>
+      )}
+
+      {selected && (
+        <div className="absolute -top-2 -right-2 w-6 h-6 bg-amber-400 rounded-full flex items-center justify-center">
+          <Star className="text-black text-xs" />
+        </div>
+      )}
+
+      {onClick && (
+        <div className="absolute inset-0 bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg"></div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { Presence } from "@shared/schema";
+
+const PRESENCE_LABELS: Record<Presence, string> = {
+  online: "en ligne",
+  idle: "inactif",
+  away: "absent",
+  disconnected: "déconnecté",
+};
+
+const PRESENCE_COLORS: Record<Presence, string> = {
+  online: "bg-[var(--game-success)]",
+  idle: "bg-yellow-400",
+  away: "bg-orange-500",
+  disconnected: "bg-gray-500",
+};
+
+// Colored dot for a seat's presence; anything but "online" is also spelled out
+export function PresenceIndicator({ presence }: { presence: Presence }) {
+  return (
+    <span className="flex items-center space-x-1" title={PRESENCE_LABELS[presence]}>
+      <span className={`w-2 h-2 rounded-full ${PRESENCE_COLORS[presence]}`}></span>
+      {presence !== "online" && (
+        <span className="text-xs text-gray-400">{PRESENCE_LABELS[presence]}</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GameSettingsPanel } from "@/components/game-settings-panel";
+import { BotBadge } from "@/components/bot-badge";
+import { PresenceIndicator } from "@/components/presence-indicator";
+import { Crown, Check, Play, Users, Settings2, Bot, X } from "lucide-react";
+import { countReadyPlayers } from "@shared/engine";
+import { BOT_LABELS } from "@shared/bots";
+import { BotStrategyName, type GameSettings, type PlayerView } from "@shared/schema";
+
+interface WaitingRoomProps {
+  game: PlayerView;
+  onToggleReady: (ready: boolean) => void;
+  onStart: () => void;
+  onSaveSettings: (settings: GameSettings) => void;
+  onAddBot: (strategy: BotStrategyName) => void;
+  onRemoveBot: (botId: string) => void;
+  pending?: boolean;
+}
+
+export function WaitingRoom({ game, onToggleReady, onStart, onSaveSettings, onAddBot, onRemoveBot, pending }: WaitingRoomProps) {
+  const viewer = game.players.find(p => p.id === game.viewerId);
+  const isHost = !!viewer && viewer.id === game.hostId;
+  const readyCount = countReadyPlayers(game);
+  const canStart = readyCount >= game.settings.minPlayers;
+
+  // The host edits a draft; everyone else sees the rules as saved
+  const [draft, setDraft] = useState(game.settings);
+  const savedSettings = JSON.stringify(game.settings);
+  useEffect(() => setDraft(game.settings), [savedSettings]);
+  const settingsChanged = JSON.stringify(draft) !== savedSettings;
+  const [botStrategy, setBotStrategy] = useState<BotStrategyName>("probabilistic");
+  const tableFull = game.players.length >= game.settings.maxPlayers;
+
+  return (
+    <div className="max-w-2xl mx-auto bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold flex items-center">
+          <Users className="mr-2 h-5 w-5 text-[var(--game-accent)]" />
+          Salle d'attente
+        </h2>
+        <span className="text-sm text-gray-300">
+          {readyCount}/{game.players.length} prêts
+        </span>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {game.players.map((player) => (
+          <div
+            key={player.id}
+            className="flex items-center justify-between bg-[var(--game-secondary)]/40 rounded-lg px-4 py-3 border border-gray-700"
+          >
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-sm font-bold">
+                {player.avatar}
+              </div>
+              <span className="font-medium">{player.name}</span>
+              {player.id === game.hostId && (
+                <Crown className="h-4 w-4 text-[var(--game-accent)]" />
+              )}
+              {player.bot && <BotBadge strategy={player.bot} />}
+              <PresenceIndicator presence={player.presence} />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {player.isReady ? (
+                <Badge className="bg-[var(--game-success)] text-white">
+                  <Check className="mr-1 h-3 w-3" />
+                  Prêt
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-gray-400 border-gray-600">
+                  En attente
+                </Badge>
+              )}
+              {isHost && player.bot && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemoveBot(player.id)}
+                  disabled={pending}
+                  aria-label={`Retirer ${player.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isHost && (
+        <div className="flex space-x-3 mb-6">
+          <Select value={botStrategy} onValueChange={(value) => setBotStrategy(value as BotStrategyName)}>
+            <SelectTrigger className="flex-1 bg-[var(--game-secondary)] border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BotStrategyName.options.map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>{BOT_LABELS[strategy]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => onAddBot(botStrategy)} disabled={pending || tableFull}>
+            <Bot className="mr-2 h-4 w-4" />
+            Ajouter un bot
+          </Button>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-400 mb-4">
+        Partagez le code <span className="text-[var(--game-accent)] font-mono">#{game.id}</span> pour inviter
+        jusqu'à {game.settings.maxPlayers} joueurs. Il faut au moins {game.settings.minPlayers} joueurs prêts pour commencer.
+        {game.settings.allowSpectators && (
+          <> Les spectateurs peuvent suivre la partie sur <span className="font-mono">/game/{game.id}/watch</span>.</>
+        )}
+      </p>
+
+      <div className="bg-[var(--game-secondary)]/40 rounded-lg p-4 border border-gray-700 mb-6">
+        <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+          <Settings2 className="mr-2 h-4 w-4" />
+          Règles de la partie
+        </h3>
+        <GameSettingsPanel
+          variant={game.variant}
+          settings={isHost ? draft : game.settings}
+          onChange={isHost ? setDraft : undefined}
+          disabled={pending}
+        />
+        {isHost && settingsChanged && (
+          <div className="flex space-x-3 mt-4">
+            <Button variant="outline" size="sm" className="flex-1" onClick={() => setDraft(game.settings)} disabled={pending}>
+              Annuler
+            </Button>
+            <Button size="sm" className="flex-1" onClick={() => onSaveSettings(draft)} disabled={pending}>
+              Enregistrer les règles
+            </Button>
+          </div>
+        )}
+        {isHost && (
+          <p className="text-xs text-gray-400 mt-3">
+            Modifier les règles remet tous les joueurs en attente. Elles sont verrouillées au lancement.
+          </p>
+        )}
+      </div>
+
+      <div className="flex space-x-3">
+        {viewer && (
+          <Button
+            onClick={() => onToggleReady(!viewer.isReady)}
+            disabled={pending}
+            variant={viewer.isReady ? "outline" : "default"}
+            className="flex-1"
+          >
+            {viewer.isReady ? "Je ne suis plus prêt" : "Je suis prêt"}
+          </Button>
+        )}
+
+        {isHost && (
+          <Button
+            onClick={onStart}
+            disabled={!canStart || pending}
+            className="flex-1 bg-[var(--game-accent)] hover:bg-amber-600 text-black font-bold"
+          >
+            <Play className="mr-2 h-4 w-4" />
+            Lancer la partie
+          </Button>
+        )}
+      </div>
+
+      {!isHost && (
+        <p className="text-xs text-gray-400 text-center mt-3">
+          L'hôte lancera la partie quand tout le monde sera prêt.
+        </p>
+      )}
+    </div>
+  );
+}
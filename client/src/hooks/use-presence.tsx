@@ -0,0 +1,51 @@
+import { useEffect, useRef } from "react";
+import type { ReportedPresence } from "@shared/schema";
+
+// Without a click, key press or pointer move for this long the player shows
+// as idle, then as away
+const IDLE_AFTER_MS = 60 * 1000;
+const AWAY_AFTER_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "scroll"] as const;
+
+// Tells the server whether the player is at the table. A hidden tab counts
+// as away. Reports again on every (re)connection, and otherwise only when
+// the state changes.
+export function usePresence(enabled: boolean, report: (presence: ReportedPresence) => void) {
+  const reportRef = useRef(report);
+  reportRef.current = report;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let lastActivity = Date.now();
+    let reported: ReportedPresence | undefined;
+
+    const update = () => {
+      const inactive = Date.now() - lastActivity;
+      const presence: ReportedPresence = document.hidden || inactive >= AWAY_AFTER_MS
+        ? "away"
+        : inactive >= IDLE_AFTER_MS ? "idle" : "online";
+      if (presence !== reported) {
+        reported = presence;
+        reportRef.current(presence);
+      }
+    };
+    const onActivity = () => {
+      lastActivity = Date.now();
+      update();
+    };
+
+    update();
+    const timer = setInterval(update, 5000);
+    document.addEventListener("visibilitychange", update);
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", update);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+    };
+  }, [enabled]);
+}
@@ -1,9 +1,32 @@
 import { useEffect, useRef, useState } from "react";
-import type { WebSocketMessage } from "@shared/schema";
+import { ServerMessage, type ClientMessage, type GameCommand, type PlayerView } from "@shared/schema";
+
+// A command without its requestId, which send() fills in
+export type Command = {
+  [T in GameCommand["type"]]: Omit<Extract<GameCommand, { type: T }>, "requestId">
+}[GameCommand["type"]];
+
+// A command the server refused (nack), or that never got an answer. The code
+// is a rule or protocol error code, or "disconnected".
+export class CommandError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+// Commands still waiting this long for their ack are given up
+const COMMAND_TIMEOUT_MS = 10000;
+
+interface PendingCommand {
+  resolve: (view: PlayerView) => void;
+  reject: (error: CommandError) => void;
+  timer: NodeJS.Timeout;
+}
 
 interface UseWebSocketOptions {
-  onMessage?: (message: WebSocketMessage) => void;
-  onConnect?: (ws: WebSocket) => void;
+  onMessage?: (message: ServerMessage) => void;
+  onConnect?: (send: (message: ClientMessage) => void) => void;
   onDisconnect?: () => void;
   onError?: (error: Event) => void;
 }
@@ -13,7 +36,18 @@ export function useWebSocket(path: string, options: UseWebSocketOptions = {}) {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const reconnectAttempts = useRef(0);
-  const maxReconnectAttempts = 5;
+  const closedByUser = useRef(false);
+  const pendingCommands = useRef(new Map<string, PendingCommand>());
+  const commandCount = useRef(0);
+
+  const settleCommand = (requestId: string, settle: (command: PendingCommand) => void) => {
+    const command = pendingCommands.current.get(requestId);
+    if (command) {
+      clearTimeout(command.timer);
+      pendingCommands.current.delete(requestId);
+      settle(command);
+    }
+  };
 
   const connect = () => {
     try {
@@ -26,24 +60,45 @@ export function useWebSocket(path: string, options: UseWebSocketOptions = {}) {
       ws.onopen = () => {
         setConnected(true);
         reconnectAttempts.current = 0;
-        options.onConnect?.(ws);
+        options.onConnect?.((message) => ws.send(JSON.stringify(message)));
       };
 
+      // Frames that do not match the protocol are dropped
       ws.onmessage = (event) => {
+        let result;
         try {
-          const message = JSON.parse(event.data) as WebSocketMessage;
-          options.onMessage?.(message);
+          result = ServerMessage.safeParse(JSON.parse(event.data));
         } catch (error) {
           console.error("Failed to parse WebSocket message:", error);
+          return;
+        }
+        if (!result.success) {
+          console.error("Invalid WebSocket message:", result.error.issues);
+          return;
+        }
+
+        const message = result.data;
+        if (message.type === "ack") {
+          settleCommand(message.data.requestId, (command) => command.resolve(message.data.view));
+        } else if (message.type === "nack") {
+          settleCommand(message.data.requestId, (command) => command.reject(new CommandError(message.data.message, message.data.code)));
+        } else {
+          options.onMessage?.(message);
         }
       };
 
       ws.onclose = () => {
         setConnected(false);
+        // Whether a move sent just before the drop was applied is unknown;
+        // the state sent after reconnecting tells
+        Array.from(pendingCommands.current.keys()).forEach((requestId) => {
+          settleCommand(requestId, (command) => command.reject(new CommandError("Connection lost", "disconnected")));
+        });
         options.onDisconnect?.();
         
-        // Attempt to reconnect
-        if (reconnectAttempts.current < maxReconnectAttempts) {
+        // Keep trying to reconnect: the server holds our seat for a while,
+        // and onConnect re-sends join_game to take it back
+        if (!closedByUser.current) {
           reconnectAttempts.current += 1;
           const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 10000);
           
@@ -62,9 +117,11 @@ export function useWebSocket(path: string, options: UseWebSocketOptions = {}) {
   };
 
   useEffect(() => {
+    closedByUser.current = false;
     connect();
 
     return () => {
+      closedByUser.current = true;
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
@@ -75,14 +132,37 @@ export function useWebSocket(path: string, options: UseWebSocketOptions = {}) {
     };
   }, [path]);
 
-  const sendMessage = (message: any) => {
+  const sendMessage = (message: ClientMessage) => {
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify(message));
     }
   };
 
+  // Sends a move for the seat this socket joined; resolves with the sender's
+  // view once the server applied it
+  const send = (command: Command): Promise<PlayerView> => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new CommandError("Not connected", "disconnected"));
+    }
+
+    commandCount.current += 1;
+    const requestId = `${Date.now().toString(36)}-${commandCount.current}`;
+    return new Promise((resolve, reject) => {
+      pendingCommands.current.set(requestId, {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          settleCommand(requestId, (pending) => pending.reject(new CommandError("No answer from the server", "disconnected")));
+        }, COMMAND_TIMEOUT_MS),
+      });
+      ws.send(JSON.stringify({ ...command, requestId } satisfies ClientMessage));
+    });
+  };
+
   return {
     connected,
+    send,
     sendMessage,
     ws: wsRef.current
   };
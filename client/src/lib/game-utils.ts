@@ -1,4 +1,4 @@
-import type { GameState, Player, Card } from "@shared/schema";
+import type { GameState, Player, Card, GameSettings, GameEvent } from "@shared/schema";
 
 export function getPlayerById(game: GameState, playerId: string): Player | undefined {
   return game.players.find(p => p.id === playerId);
@@ -8,27 +8,6 @@ export function getOtherPlayers(game: GameState, currentPlayerId: string): Playe
   return game.players.filter(p => p.id !== currentPlayerId);
 }
 
-export function getNextPlayer(game: GameState, currentPlayerId: string): Player | undefined {
-  const currentIndex = game.players.findIndex(p => p.id === currentPlayerId);
-  if (currentIndex === -1) return undefined;
-  
-  const nextIndex = (currentIndex + 1) % game.players.length;
-  return game.players[nextIndex];
-}
-
-export function canPlayerAccuse(game: GameState, playerId: string): boolean {
-  return !!(
-    game.lastPlayerId && 
-    game.lastPlayerId !== playerId && 
-    game.phase === "playing" &&
-    game.lastPlayedCard
-  );
-}
-
-export function isPlayerTurn(game: GameState, playerId: string): boolean {
-  return game.currentPlayerId === playerId && game.phase === "playing";
-}
-
 export function getCardTypeColor(cardType: "truth" | "lie"): string {
   return cardType === "truth" ? "var(--truth-card)" : "var(--lie-card)";
 }
@@ -37,7 +16,7 @@ export function getCardTypeIcon(cardType: "truth" | "lie"): string {
   return cardType === "truth" ? "check" : "x";
 }
 
-export function formatGameEvent(event: any): string {
+export function formatGameEvent(event: GameEvent): string {
   switch (event.type) {
     case "card_played":
       return `${event.playerName} a joué une carte`;
@@ -47,13 +26,38 @@ export function formatGameEvent(event: any): string {
       return `${event.playerName} a rejoint la partie`;
     case "leave":
       return `${event.playerName} a quitté la partie`;
-    case "penalty":
-      return `${event.playerName} pioche ${event.penaltyCards || 3} cartes`;
     default:
-      return event.message || "";
+      // Penalties among others: the engine words them with the cards taken
+      return event.message;
+  }
+}
+
+// What the loser of a challenge has to take, in the words of the rules modal
+export function describeChallengePenalty(
+  settings: Pick<GameSettings, "challengePenalty" | "penaltySize">,
+  pileCount?: number,
+): string {
+  const pile = pileCount === undefined ? "ramasser la pile" : `ramasser la pile (${pileCount} cartes)`;
+  const draw = `piocher ${settings.penaltySize} cartes`;
+  switch (settings.challengePenalty) {
+    case "pile":
+      return pile;
+    case "fixed":
+      return draw;
+    case "both":
+      return `${pile} et ${draw}`;
   }
 }
 
+// Cards handed to the loser of the latest challenge
+export function countChallengePenaltyCards(events: GameEvent[]): number {
+  const accusationIndex = events.map(e => e.type).lastIndexOf("accusation");
+  return events
+    .slice(accusationIndex + 1)
+    .filter(e => e.type === "penalty")
+    .reduce((total, e) => total + (e.cardCount ?? 0), 0);
+}
+
 export function generateAvatarColor(name: string): string {
   const colors = [
     "from-blue-500 to-purple-600",
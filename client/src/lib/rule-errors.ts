@@ -0,0 +1,69 @@
+import { RuleError, type RuleErrorCode } from "@shared/engine";
+import type { ProtocolErrorCode } from "@shared/schema";
+import { ApiError } from "./queryClient";
+import { CommandError } from "@/hooks/use-websocket";
+
+const RULE_ERROR_MESSAGES: Record<RuleErrorCode, string> = {
+  game_finished: "La partie est terminée.",
+  game_full: "La partie est complète.",
+  game_started: "La partie a déjà commencé.",
+  not_host: "Seul l'hôte de la partie peut faire cela.",
+  not_enough_ready: "Pas assez de joueurs prêts pour commencer.",
+  match_not_finished: "Le match n'est pas encore terminé.",
+  deck_too_small: "Le paquet est trop petit pour distribuer une main complète à chaque joueur.",
+  too_many_seated: "Il y a déjà plus de joueurs installés que le nouveau maximum.",
+  not_a_bot: "Seuls les bots peuvent être retirés par l'hôte.",
+  wrong_phase: "Cette action n'est pas possible maintenant.",
+  already_joined: "Vous êtes déjà dans cette partie.",
+  player_not_found: "Joueur introuvable.",
+  not_your_turn: "Ce n'est pas votre tour.",
+  duplicate_card: "Une carte a été sélectionnée deux fois.",
+  card_not_found: "Cette carte n'est pas dans votre main.",
+  invalid_card_count: "Vous ne pouvez jouer qu'une carte à la fois.",
+  claim_required: "Choisissez la valeur que vous annoncez.",
+  claim_mismatch: "L'annonce ne correspond pas au nombre de cartes posées.",
+  wrong_rank: "Vous devez annoncer la valeur demandée.",
+  nothing_to_accuse: "Il n'y a rien à accuser.",
+  challenge_closed: "Trop tard : le temps pour accuser est écoulé.",
+  stale_accusation: "Seul le dernier coup peut être accusé.",
+  self_accusation: "Vous ne pouvez pas vous accuser vous-même.",
+  already_revealed: "Ces cartes ont déjà été révélées.",
+  not_seated: "Seuls les joueurs assis à la table peuvent faire cela.",
+  accuser_offline: "Vous devez être connecté pour accuser.",
+  challenge_not_expired: "Le temps pour accuser n'est pas encore écoulé.",
+  revelation_not_expired: "Les cartes révélées sont encore affichées.",
+  turn_not_expired: "Le tour n'est pas encore terminé.",
+};
+
+const PROTOCOL_ERROR_MESSAGES: Record<ProtocolErrorCode, string> = {
+  invalid_message: "Le serveur n'a pas compris la demande.",
+  invalid_token: "Votre session ne correspond pas à cette partie.",
+  game_not_found: "Cette partie n'existe pas ou plus.",
+  spectators_not_allowed: "L'hôte n'autorise pas les spectateurs dans cette partie.",
+  not_joined: "Connexion à la partie en cours, réessayez dans un instant.",
+  already_seated: "Un joueur assis ne peut pas suivre une partie en spectateur.",
+};
+
+// Text for an error frame received over the WebSocket
+export function getProtocolErrorMessage(code: ProtocolErrorCode): string {
+  return PROTOCOL_ERROR_MESSAGES[code];
+}
+
+// Text for an error toast: the localized rule or protocol message when the
+// server (or the shared engine, client-side) gave a known code, the raw
+// message otherwise
+export function getErrorMessage(error: unknown): string {
+  const code = error instanceof ApiError || error instanceof RuleError || error instanceof CommandError
+    ? error.code
+    : undefined;
+  if (code && code in RULE_ERROR_MESSAGES) {
+    return RULE_ERROR_MESSAGES[code as RuleErrorCode];
+  }
+  if (code && code in PROTOCOL_ERROR_MESSAGES) {
+    return PROTOCOL_ERROR_MESSAGES[code as ProtocolErrorCode];
+  }
+  if (code === "disconnected") {
+    return "La connexion au serveur a été perdue. Réessayez dans un instant.";
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -2,12 +2,20 @@ import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, getProtocolErrorMessage } from "@/lib/rule-errors";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { usePresence } from "@/hooks/use-presence";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlayingCard } from "@/components/playing-card";
+import { WaitingRoom } from "@/components/waiting-room";
+import { MatchStandings } from "@/components/match-standings";
+import { BotBadge } from "@/components/bot-badge";
+import { PresenceIndicator } from "@/components/presence-indicator";
 import { 
   VenetianMask, 
   DoorClosed, 
@@ -15,157 +23,330 @@ import {
   HelpCircle, 
   AlertTriangle,
   Check,
-  X,
   Star,
   History,
-  LayersIcon
+  LayersIcon,
+  Eye
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
-import type { GameState, Card as GameCard, PlayCardRequest, AccusePlayerRequest } from "@shared/schema";
+import { CardRank, type PlayerView, type PlayCardRequest, type AccusePlayerRequest, type GameSettings, type BotStrategyName } from "@shared/schema";
+import { formatClaim, isTruthfulPlay, RANK_LABELS } from "@shared/cards";
+import { canPlayerAccuse, isAttending, isPlayerTurn, validatePlay } from "@shared/engine";
+import { applyViewUpdate } from "@shared/view-patch";
+import { countChallengePenaltyCards, describeChallengePenalty } from "@/lib/game-utils";
 
 export default function Game() {
   const { gameId } = useParams<{ gameId: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const [selectedCardId, setSelectedCardId] = useState<string>("");
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [claimRank, setClaimRank] = useState<CardRank | "">("");
   const [showRules, setShowRules] = useState(false);
   const [showRevelation, setShowRevelation] = useState(false);
   const [showGameEnd, setShowGameEnd] = useState(false);
-  const [winner, setWinner] = useState<string>("");
-  const [timeLeft, setTimeLeft] = useState(45);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [spectatorCount, setSpectatorCount] = useState(0);
   
   const playerId = localStorage.getItem("playerId");
   const playerName = localStorage.getItem("playerName");
+  const playerToken = localStorage.getItem("playerToken");
 
   // WebSocket connection
-  const { connected } = useWebSocket(`/ws`, {
+  const { connected, send, sendMessage } = useWebSocket(`/ws`, {
     onMessage: (message) => {
-      if (message.type === "game_state" || message.type === "card_played" || message.type === "accusation" || message.type === "revelation") {
-        queryClient.setQueryData(["/api/games", gameId], message.data);
-        if (message.type === "accusation") {
-          setShowRevelation(true);
-        } else if (message.type === "revelation" || (message.type === "game_state" && message.data?.phase === "playing")) {
-          // Close revelation dialog when game continues
-          setShowRevelation(false);
-        } else if (message.type === "card_played" && message.data?.phase === "finished") {
-          // Show game end when someone wins
-          const winningPlayer = message.data.players.find((p: any) => p.cardCount === 0);
-          if (winningPlayer) {
-            setWinner(winningPlayer.name);
-            setShowGameEnd(true);
+      switch (message.type) {
+        case "game_state":
+        case "player_joined":
+        case "card_played":
+        case "accusation":
+        case "revelation": {
+          // Updates are patches on the view we hold; after a gap, ask for
+          // the whole view again
+          const view = applyViewUpdate(queryClient.getQueryData<PlayerView>(["/api/games", gameId]), message.data);
+          if (!view) {
+            sendMessage({ type: "resync" });
+            break;
           }
+          queryClient.setQueryData(["/api/games", gameId], view);
+          if (message.type === "accusation") {
+            setShowRevelation(true);
+          } else if (view.phase !== "revelation") {
+            // Close revelation dialog once the server ends the revelation
+            setShowRevelation(false);
+          }
+          break;
         }
+        case "spectators":
+          setSpectatorCount(message.data.count);
+          break;
+        case "error":
+          toast({
+            title: "Erreur",
+            description: getProtocolErrorMessage(message.data.code),
+            variant: "destructive",
+          });
+          break;
       }
     },
-    onConnect: (ws) => {
-      ws.send(JSON.stringify({
-        type: 'join_game',
-        gameId,
-        playerId
-      }));
+    onConnect: (send) => {
+      if (playerId && playerToken) {
+        send({
+          type: "join_game",
+          gameId,
+          playerId,
+          token: playerToken
+        });
+      }
     }
   });
 
-  // Game state query
-  const { data: game, isLoading } = useQuery<GameState>({
+  usePresence(connected && !!playerId && !!playerToken, (presence) => {
+    sendMessage({ type: "presence", presence });
+  });
+
+  // Game state query, projected for this player
+  const { data: game, isLoading } = useQuery<PlayerView>({
     queryKey: ["/api/games", gameId],
     enabled: !!gameId,
   });
 
-  // Mutations
+  // A broadcast can overtake the ack of our own move; an ack older than the
+  // view we already hold is dropped. Returns the view kept.
+  const setView = (view: PlayerView) => queryClient.setQueryData<PlayerView>(
+    ["/api/games", gameId],
+    (cached) => cached && cached.version > view.version ? cached : view,
+  );
+
+  // Mutations. Moves go over the socket: the ack brings back our own view,
+  // which the broadcast to the other seats does not repeat.
   const playCardMutation = useMutation({
-    mutationFn: async (request: PlayCardRequest) => {
-      const res = await apiRequest("POST", `/api/games/${gameId}/play`, {
-        playerId: request.playerId,
-        cardId: request.cardId
+    mutationFn: (request: PlayCardRequest) => send({
+      type: "play_card",
+      cardIds: request.cardIds,
+      claim: request.claim
+    }),
+    onSuccess: setView,
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const accusePlayerMutation = useMutation({
+    mutationFn: (request: AccusePlayerRequest) => send({
+      type: "accuse",
+      targetId: request.accusedPlayerId
+    }),
+    onSuccess: (view) => {
+      setView(view);
+      setShowRevelation(true);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const readyMutation = useMutation({
+    mutationFn: (ready: boolean) => send({ type: "ready", ready }),
+    onSuccess: setView,
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (settings: GameSettings) => {
+      const res = await apiRequest("POST", `/api/games/${gameId}/settings`, { settings });
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
       });
+    },
+  });
+
+  const addBotMutation = useMutation({
+    mutationFn: async (strategy: BotStrategyName) => {
+      const res = await apiRequest("POST", `/api/games/${gameId}/bots`, { strategy });
       return res.json();
     },
     onError: (error) => {
       toast({
         title: "Erreur",
-        description: error.message,
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
   });
 
-  const accusePlayerMutation = useMutation({
-    mutationFn: async (request: AccusePlayerRequest) => {
-      const res = await apiRequest("POST", `/api/games/${gameId}/accuse`, {
-        accusingPlayerId: request.accusingPlayerId,
-        accusedPlayerId: request.accusedPlayerId
+  const removeBotMutation = useMutation({
+    mutationFn: async (botId: string) => {
+      const res = await apiRequest("DELETE", `/api/games/${gameId}/bots/${botId}`);
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
       });
+    },
+  });
+
+  const startGameMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/games/${gameId}/start`);
       return res.json();
     },
     onError: (error) => {
       toast({
         title: "Erreur",
-        description: error.message,
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
   });
 
-  const continueGameMutation = useMutation({
+  const nextRoundMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/games/${gameId}/next-round`);
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rematchMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/games/${gameId}/continue`);
+      const res = await apiRequest("POST", `/api/games/${gameId}/rematch`);
       return res.json();
     },
-    onSuccess: () => {
-      setShowRevelation(false);
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const continueGameMutation = useMutation({
+    mutationFn: () => send({ type: "continue" }),
+    onSuccess: (view) => {
+      if (setView(view)?.phase !== "revelation") {
+        setShowRevelation(false);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
     },
   });
 
   useEffect(() => {
-    if (!playerId || !playerName) {
+    if (!playerId || !playerName || !playerToken) {
       navigate("/");
     }
-  }, [playerId, playerName, navigate]);
+  }, [playerId, playerName, playerToken, navigate]);
 
-  // Check if game is already finished when component loads or game state updates
+  // Standings come up at the end of every round, and go away when the next
+  // round or a rematch begins
   useEffect(() => {
-    if (game && game.phase === "finished") {
-      const winningPlayer = game.players.find(p => p.cardCount === 0);
-      if (winningPlayer && !showGameEnd) {
-        setWinner(winningPlayer.name);
-        setShowGameEnd(true);
-      }
-    }
-  }, [game, showGameEnd]);
+    setShowGameEnd(game?.phase === "intermission" || game?.phase === "finished");
+  }, [game?.phase, game?.match.round]);
 
-  // Timer management - reset when turn changes
+  // Difference between the server clock and ours, refreshed with every view
   useEffect(() => {
-    if (game?.phase === "playing" || game?.phase === "accusation") {
-      setTimeLeft(45);
+    if (game) {
+      setClockOffset(game.serverTime - Date.now());
     }
-  }, [game?.currentPlayerId, game?.phase]);
+  }, [game?.serverTime]);
 
-  // Timer countdown
+  // Timer countdown, driven by the deadline the server owns: the current
+  // turn, the challenge window right after a play, or the revelation
   useEffect(() => {
-    if ((game?.phase === "playing" || game?.phase === "accusation") && timeLeft > 0) {
-      const timer = setTimeout(() => {
-        setTimeLeft(timeLeft - 1);
-      }, 1000);
-
-      return () => clearTimeout(timer);
+    const deadline = game?.turnDeadline ?? game?.challengeDeadline ?? game?.revelationDeadline;
+    if (!deadline) {
+      setTimeLeft(0);
+      return;
     }
-  }, [timeLeft, game?.phase]);
+
+    const update = () => {
+      setTimeLeft(Math.max(0, Math.ceil((deadline - (Date.now() + clockOffset)) / 1000)));
+    };
+    update();
+
+    const timer = setInterval(update, 250);
+    return () => clearInterval(timer);
+  }, [game?.turnDeadline, game?.challengeDeadline, game?.revelationDeadline, clockOffset]);
 
   const handleLeaveGame = () => {
     navigate("/");
   };
 
+  const handleSelectCard = (cardId: string) => {
+    if (!game || !playerId || !isPlayerTurn(game, playerId)) return;
+
+    if (game.variant === "classic") {
+      setSelectedCardIds([cardId]);
+    } else if (selectedCardIds.includes(cardId)) {
+      setSelectedCardIds(selectedCardIds.filter(id => id !== cardId));
+    } else if (selectedCardIds.length < 4) {
+      setSelectedCardIds([...selectedCardIds, cardId]);
+    }
+  };
+
   const handlePlayCard = () => {
-    if (!selectedCardId || !playerId) return;
-    
-    playCardMutation.mutate({
+    if (selectedCardIds.length === 0 || !playerId || !game) return;
+
+    const rank = game.requiredRank ?? claimRank;
+    const request: PlayCardRequest = {
       gameId: gameId!,
       playerId,
-      cardId: selectedCardId
-    });
-    setSelectedCardId("");
+      cardIds: selectedCardIds,
+      claim: game.variant === "menteur" && rank
+        ? { rank, count: selectedCardIds.length }
+        : undefined
+    };
+
+    // Same rules as the server, so obvious mistakes never leave the client
+    const error = validatePlay(game, request, game.hand);
+    if (error) {
+      toast({
+        title: "Erreur",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    playCardMutation.mutate(request);
+    setSelectedCardIds([]);
+    setClaimRank("");
   };
 
   const handleAccusePlayer = () => {
@@ -206,12 +387,19 @@ export default function Game() {
     );
   }
 
-  const currentPlayer = game.players.find(p => p.id === playerId);
+  const currentPlayer = game.players.find(p => p.id === game.viewerId);
   const otherPlayers = game.players.filter(p => p.id !== playerId);
-  const isCurrentPlayerTurn = game.currentPlayerId === playerId;
-  const canAccuse = game.lastPlayerId && game.lastPlayerId !== playerId && game.phase === "playing";
+  const isCurrentPlayerTurn = !!playerId && isPlayerTurn(game, playerId);
+  const canAccuse = !!playerId && canPlayerAccuse(game, playerId);
+  const isHost = game.hostId === playerId;
+  const matchOver = game.phase === "finished";
+  const roundResult = game.match.results[game.match.results.length - 1];
+  const winner = game.players.find(p => p.id === (matchOver ? game.match.winnerId : roundResult?.winnerId))?.name;
+  const hasAcknowledged = !!playerId && game.revelationAcks.includes(playerId);
   const lastPlayer = game.lastPlayerId ? game.players.find(p => p.id === game.lastPlayerId) : null;
-  const selectedCard = currentPlayer?.cards.find(c => c.id === selectedCardId);
+  const selectedCards = game.hand.filter(c => selectedCardIds.includes(c.id));
+  const announcedRank = game.requiredRank ?? (claimRank || undefined);
+  const canPlay = isCurrentPlayerTurn && selectedCards.length > 0 && (game.variant === "classic" || !!announcedRank);
 
   return (
     <div className="min-h-screen">
@@ -229,7 +417,14 @@ export default function Game() {
             <div className="text-sm text-gray-300">
               <span>Partie: <span className="text-[var(--game-accent)] font-mono">#{game.id}</span></span>
               <span className="mx-2">•</span>
-              <span>{game.players.length}</span>/{game.maxPlayers} joueurs
+              <span>{game.players.length}</span>/{game.settings.maxPlayers} joueurs
+              {spectatorCount > 0 && (
+                <>
+                  <span className="mx-2">•</span>
+                  <Eye className="inline h-4 w-4 mr-1" />
+                  {spectatorCount} spectateur{spectatorCount > 1 ? "s" : ""}
+                </>
+              )}
             </div>
             
             <Button
@@ -245,264 +440,293 @@ export default function Game() {
       </header>
 
       <main className="flex-1 p-4 max-w-7xl mx-auto">
+        {game.phase === "waiting" ? (
+          <WaitingRoom
+            game={game}
+            onToggleReady={(ready) => readyMutation.mutate(ready)}
+            onStart={() => startGameMutation.mutate()}
+            onSaveSettings={(settings) => settingsMutation.mutate(settings)}
+            onAddBot={(strategy) => addBotMutation.mutate(strategy)}
+            onRemoveBot={(botId) => removeBotMutation.mutate(botId)}
+            pending={readyMutation.isPending || startGameMutation.isPending || settingsMutation.isPending || addBotMutation.isPending || removeBotMutation.isPending}
+          />
+        ) : (
+        <>
         
-        {/* Game Status Bar */}
-        <div className="bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-4 mb-6 border border-gray-700">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-6">
-              <div className="flex items-center space-x-2">
-                <div className="w-3 h-3 bg-[var(--game-success)] rounded-full animate-pulse"></div>
-                <span className="text-lg font-medium">
-                  Tour de <span className="text-[var(--game-accent)]">
-                    {game.players.find(p => p.id === game.currentPlayerId)?.name}
+          {/* Game Status Bar */}
+          <div className="bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-4 mb-6 border border-gray-700">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-6">
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 bg-[var(--game-success)] rounded-full animate-pulse"></div>
+                  <span className="text-lg font-medium">
+                    {game.phase === "accusation" ? "Accusations ouvertes, puis tour de " : "Tour de "}
+                    <span className="text-[var(--game-accent)]">
+                      {game.players.find(p => p.id === game.currentPlayerId)?.name}
+                    </span>
                   </span>
-                </span>
-              </div>
+                </div>
               
-              <div className="text-sm text-gray-300">
-                Cartes en jeu: <span className="text-white font-semibold">{game.centerPile.length}</span>
-              </div>
+                <div className="text-sm text-gray-300">
+                  Cartes en jeu: <span className="text-white font-semibold">{game.centerPileCount}</span>
+                </div>
 
-              {game.phase === "finished" && (
-                <Badge className="bg-[var(--game-success)] text-white">
-                  Partie terminée
-                </Badge>
-              )}
-            </div>
+                <div className="text-sm text-gray-300">
+                  Pioche: <span className="text-white font-semibold">{game.drawPileCount}</span>
+                </div>
+
+                {game.variant === "menteur" && (
+                  <div className="text-sm text-gray-300">
+                    Valeur demandée: <span className="text-white font-semibold">
+                      {game.requiredRank ? RANK_LABELS[game.requiredRank].plural : "au choix"}
+                    </span>
+                  </div>
+                )}
+
+                {game.phase === "finished" && (
+                  <Badge className="bg-[var(--game-success)] text-white">
+                    Partie terminée
+                  </Badge>
+                )}
+              </div>
             
-            <div className="flex items-center space-x-4">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowRules(true)}
-                className="text-gray-400 hover:text-white"
-              >
-                <HelpCircle className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center space-x-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowRules(true)}
+                  className="text-gray-400 hover:text-white"
+                >
+                  <HelpCircle className="h-4 w-4" />
+                </Button>
               
-              <div className="flex items-center space-x-2 text-sm">
-                <Clock className={`h-4 w-4 ${timeLeft <= 10 ? 'text-red-400 animate-pulse' : 'text-gray-400'}`} />
-                <span className={`font-mono ${timeLeft <= 10 ? 'text-red-400 font-bold' : ''}`}>
-                  0:{timeLeft.toString().padStart(2, '0')}
-                </span>
+                <div className="flex items-center space-x-2 text-sm">
+                  <Clock className={`h-4 w-4 ${timeLeft <= 10 ? 'text-red-400 animate-pulse' : 'text-gray-400'}`} />
+                  <span className={`font-mono ${timeLeft <= 10 ? 'text-red-400 font-bold' : ''}`}>
+                    {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+                  </span>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Main Game Area */}
-        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          {/* Main Game Area */}
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
           
-          {/* Center Game Area */}
-          <div className="lg:col-span-8 space-y-6">
+            {/* Center Game Area */}
+            <div className="lg:col-span-8 space-y-6">
             
-            {/* Other Players Display */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {otherPlayers.map((player) => (
-                <div key={player.id} className="bg-[var(--game-secondary)]/40 rounded-xl p-4 border border-gray-700">
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center space-x-2">
-                      <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-sm font-bold">
-                        {player.avatar}
+              {/* Other Players Display */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {otherPlayers.map((player) => (
+                  <div key={player.id} className="bg-[var(--game-secondary)]/40 rounded-xl p-4 border border-gray-700">
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-sm font-bold">
+                          {player.avatar}
+                        </div>
+                        <span className="font-medium">{player.name}</span>
+                        {player.bot && <BotBadge strategy={player.bot} />}
+                        <PresenceIndicator presence={player.presence} />
                       </div>
-                      <span className="font-medium">{player.name}</span>
-                      {player.isOnline && (
-                        <div className="w-2 h-2 bg-[var(--game-success)] rounded-full"></div>
-                      )}
+                      <span className="text-sm text-gray-400">{player.cardCount} cartes</span>
                     </div>
-                    <span className="text-sm text-gray-400">{player.cardCount} cartes</span>
-                  </div>
                   
-                  <div className="flex -space-x-1">
-                    {Array.from({ length: Math.min(player.cardCount, 3) }).map((_, i) => (
-                      <div key={i} className="w-8 h-12 bg-gradient-to-br from-indigo-600 to-purple-700 rounded border-2 border-gray-600 shadow-md"></div>
-                    ))}
-                    {player.cardCount > 3 && (
-                      <div className="text-sm text-gray-400 ml-2 self-center">+{player.cardCount - 3}</div>
-                    )}
+                    <div className="flex -space-x-1">
+                      {Array.from({ length: Math.min(player.cardCount, 3) }).map((_, i) => (
+                        <div key={i} className="w-8 h-12 bg-gradient-to-br from-indigo-600 to-purple-700 rounded border-2 border-gray-600 shadow-md"></div>
+                      ))}
+                      {player.cardCount > 3 && (
+                        <div className="text-sm text-gray-400 ml-2 self-center">+{player.cardCount - 3}</div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
-            
-            {/* Center Play Area */}
-            <div className="bg-gradient-to-br from-emerald-900/20 to-green-800/20 rounded-2xl p-8 border-2 border-emerald-700/30 min-h-64 flex flex-col items-center justify-center relative">
-              <div className="absolute top-4 left-4 text-sm text-emerald-300 font-medium">
-                <LayersIcon className="inline mr-2 h-4 w-4" />
-                Pile centrale
+                ))}
               </div>
+            
+              {/* Center Play Area */}
+              <div className="bg-gradient-to-br from-emerald-900/20 to-green-800/20 rounded-2xl p-8 border-2 border-emerald-700/30 min-h-64 flex flex-col items-center justify-center relative">
+                <div className="absolute top-4 left-4 text-sm text-emerald-300 font-medium">
+                  <LayersIcon className="inline mr-2 h-4 w-4" />
+                  Pile centrale
+                </div>
               
-              <div className="relative">
-                {game.centerPile.length > 0 ? (
-                  <div className="relative transform -rotate-2">
-                    <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl absolute"></div>
-                    <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl absolute transform translate-x-1 translate-y-1"></div>
-                    <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl relative transform translate-x-2 translate-y-2 flex items-center justify-center">
-                      <HelpCircle className="text-white text-2xl" />
+                <div className="relative">
+                  {game.centerPileCount > 0 ? (
+                    <div className="relative transform -rotate-2">
+                      <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl absolute"></div>
+                      <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl absolute transform translate-x-1 translate-y-1"></div>
+                      <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl relative transform translate-x-2 translate-y-2 flex items-center justify-center">
+                        <HelpCircle className="text-white text-2xl" />
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <div className="text-gray-400 text-center">
-                    <LayersIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                    <p>Aucune carte jouée</p>
-                  </div>
-                )}
+                  ) : (
+                    <div className="text-gray-400 text-center">
+                      <LayersIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                      <p>Aucune carte jouée</p>
+                    </div>
+                  )}
                 
-                {lastPlayer && (
-                  <div className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 text-center">
-                    <div className="bg-[var(--game-secondary)]/80 backdrop-blur-sm rounded-lg px-3 py-1 text-sm text-emerald-300 border border-emerald-700/50">
-                      {lastPlayer.name} a joué une carte
+                  {lastPlayer && (
+                    <div className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 text-center">
+                      <div className="bg-[var(--game-secondary)]/80 backdrop-blur-sm rounded-lg px-3 py-1 text-sm text-emerald-300 border border-emerald-700/50">
+                        {game.lastClaim
+                          ? `${lastPlayer.name} annonce ${formatClaim(game.lastClaim)}`
+                          : `${lastPlayer.name} a joué une carte`}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
-            </div>
             
-          </div>
+            </div>
           
-          {/* Action Panel */}
-          <div className="lg:col-span-4 space-y-6">
+            {/* Action Panel */}
+            <div className="lg:col-span-4 space-y-6">
             
-            {/* Accusation Button */}
-            {canAccuse && (
-              <div className="bg-gradient-to-br from-red-900/40 to-red-800/40 rounded-xl p-6 border-2 border-red-700/50">
-                <h3 className="text-lg font-bold text-red-300 mb-3 flex items-center">
-                  <AlertTriangle className="mr-2 h-5 w-5" />
-                  Accusation
-                </h3>
+              {/* Accusation Button */}
+              {canAccuse && (
+                <div className="bg-gradient-to-br from-red-900/40 to-red-800/40 rounded-xl p-6 border-2 border-red-700/50">
+                  <h3 className="text-lg font-bold text-red-300 mb-3 flex items-center">
+                    <AlertTriangle className="mr-2 h-5 w-5" />
+                    Accusation
+                  </h3>
                 
-                <p className="text-sm text-gray-300 mb-4">
-                  Accusez <span className="text-red-300 font-semibold">{lastPlayer?.name}</span> de mentir sur sa dernière carte ?
-                </p>
+                  <p className="text-sm text-gray-300 mb-4">
+                    Accusez <span className="text-red-300 font-semibold">{lastPlayer?.name}</span> de mentir {game.lastClaim
+                      ? <>en annonçant <span className="text-red-300 font-semibold">{formatClaim(game.lastClaim)}</span></>
+                      : "sur sa dernière carte"} ?
+                  </p>
                 
-                <Button
-                  onClick={handleAccusePlayer}
-                  disabled={accusePlayerMutation.isPending}
-                  className="w-full bg-[var(--game-danger)] hover:bg-red-600 text-white font-bold text-lg py-3 transform hover:scale-105 transition-all"
-                >
-                  <VenetianMask className="mr-2 h-5 w-5" />
-                  MENTEUR !
-                </Button>
+                  <Button
+                    onClick={handleAccusePlayer}
+                    disabled={accusePlayerMutation.isPending}
+                    className="w-full bg-[var(--game-danger)] hover:bg-red-600 text-white font-bold text-lg py-3 transform hover:scale-105 transition-all"
+                  >
+                    <VenetianMask className="mr-2 h-5 w-5" />
+                    MENTEUR !
+                  </Button>
                 
-                <div className="mt-3 text-xs text-gray-400 text-center">
-                  Risque : +3 cartes si vous vous trompez
+                  <div className="mt-3 text-xs text-gray-400 text-center">
+                    Risque : {describeChallengePenalty(game.settings, game.centerPileCount)} si vous vous trompez
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
             
-            {/* Game Log */}
-            <div className="bg-[var(--game-secondary)]/40 rounded-xl p-4 border border-gray-700">
-              <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
-                <History className="mr-2 h-4 w-4" />
-                Historique du jeu
-              </h3>
+              {/* Game Log */}
+              <div className="bg-[var(--game-secondary)]/40 rounded-xl p-4 border border-gray-700">
+                <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+                  <History className="mr-2 h-4 w-4" />
+                  Historique du jeu
+                </h3>
               
-              <div className="space-y-2 max-h-48 overflow-y-auto">
-                {game.events.slice(-5).reverse().map((event) => (
-                  <div 
-                    key={event.id} 
-                    className={`text-sm py-2 px-3 rounded-lg ${
-                      event.type === "accusation" 
-                        ? "bg-red-900/20 border-l-2 border-red-500" 
-                        : "bg-[var(--game-secondary)]/30"
-                    }`}
-                  >
-                    {event.message}
-                    <span className="text-xs text-gray-400 ml-2">
-                      {formatDistanceToNow(event.timestamp, { addSuffix: true, locale: fr })}
-                    </span>
-                  </div>
-                ))}
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {game.events.slice(-5).reverse().map((event) => (
+                    <div 
+                      key={event.id} 
+                      className={`text-sm py-2 px-3 rounded-lg ${
+                        event.type === "accusation" 
+                          ? "bg-red-900/20 border-l-2 border-red-500" 
+                          : "bg-[var(--game-secondary)]/30"
+                      }`}
+                    >
+                      {event.message}
+                      <span className="text-xs text-gray-400 ml-2">
+                        {formatDistanceToNow(event.timestamp, { addSuffix: true, locale: fr })}
+                      </span>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
         
-        {/* Player Hand */}
-        {currentPlayer && (
-          <div className="mt-8 bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold flex items-center">
-                <div className="w-8 h-8 bg-gradient-to-br from-yellow-500 to-orange-600 rounded-full flex items-center justify-center text-sm font-bold mr-3">
-                  {currentPlayer.avatar}
-                </div>
-                Votre main
-                <span className="ml-2 text-sm text-gray-400">({currentPlayer.cardCount} cartes)</span>
-              </h2>
+          {/* Player Hand */}
+          {currentPlayer && (
+            <div className="mt-8 bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold flex items-center">
+                  <div className="w-8 h-8 bg-gradient-to-br from-yellow-500 to-orange-600 rounded-full flex items-center justify-center text-sm font-bold mr-3">
+                    {currentPlayer.avatar}
+                  </div>
+                  Votre main
+                  <span className="ml-2 text-sm text-gray-400">({currentPlayer.cardCount} cartes)</span>
+                </h2>
               
-              <div className="text-sm text-gray-300">
-                {isCurrentPlayerTurn ? (
-                  <span className="text-[var(--game-accent)]">Votre tour - Choisissez une carte à jouer</span>
-                ) : (
-                  <span>En attente de votre tour</span>
-                )}
-              </div>
-            </div>
-            
-            {/* Player's Cards */}
-            <div className="flex space-x-3 overflow-x-auto pb-4">
-              {currentPlayer.cards.map((card) => (
-                <div
-                  key={card.id}
-                  onClick={() => isCurrentPlayerTurn && setSelectedCardId(card.id)}
-                  className={`flex-shrink-0 w-20 h-28 rounded-lg border-2 cursor-pointer transform transition-all shadow-lg relative group ${
-                    card.type === "truth"
-                      ? "bg-gradient-to-br from-[var(--truth-card)] to-emerald-600 border-emerald-500"
-                      : "bg-gradient-to-br from-[var(--lie-card)] to-red-600 border-red-500"
-                  } ${
-                    selectedCardId === card.id
-                      ? "ring-2 ring-amber-400 border-amber-400 scale-105"
-                      : "hover:scale-105"
-                  } ${
-                    !isCurrentPlayerTurn ? "opacity-50 cursor-not-allowed" : ""
-                  }`}
-                >
-                  <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
-                    {card.type === "truth" ? (
-                      <Check className="text-lg mb-1" />
-                    ) : (
-                      <X className="text-lg mb-1" />
-                    )}
-                    <span className="text-xs font-bold">
-                      {card.type === "truth" ? "VÉRITÉ" : "MENSONGE"}
+                <div className="text-sm text-gray-300">
+                  {isCurrentPlayerTurn ? (
+                    <span className="text-[var(--game-accent)]">
+                      {game.variant === "menteur"
+                        ? "Votre tour - Choisissez de 1 à 4 cartes à poser"
+                        : "Votre tour - Choisissez une carte à jouer"}
                     </span>
-                  </div>
-                  
-                  {selectedCardId === card.id && (
-                    <div className="absolute -top-2 -right-2 w-6 h-6 bg-amber-400 rounded-full flex items-center justify-center">
-                      <Star className="text-black text-xs" />
-                    </div>
+                  ) : (
+                    <span>En attente de votre tour</span>
                   )}
-                  
-                  <div className="absolute inset-0 bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg"></div>
                 </div>
-              ))}
-            </div>
+              </div>
             
-            {/* Play Action */}
-            <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
-              <div className="text-sm text-gray-300">
-                {selectedCard ? (
-                  <span>
-                    Carte sélectionnée: <span className={`font-semibold ${selectedCard.type === "truth" ? "text-emerald-400" : "text-red-400"}`}>
-                      {selectedCard.type === "truth" ? "Vérité" : "Mensonge"}
-                    </span>
-                  </span>
-                ) : (
-                  <span>Aucune carte sélectionnée</span>
-                )}
+              {/* Player's Cards */}
+              <div className="flex space-x-3 overflow-x-auto pb-4">
+                {game.hand.map((card) => (
+                  <PlayingCard
+                    key={card.id}
+                    card={card}
+                    selected={selectedCardIds.includes(card.id)}
+                    disabled={!isCurrentPlayerTurn}
+                    onClick={() => handleSelectCard(card.id)}
+                  />
+                ))}
               </div>
+            
+              {/* Play Action */}
+              <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
+                <div className="text-sm text-gray-300">
+                  {selectedCards.length === 0 ? (
+                    <span>Aucune carte sélectionnée</span>
+                  ) : game.variant === "menteur" ? (
+                    <div className="flex items-center space-x-3">
+                      <span>{selectedCards.length} carte{selectedCards.length > 1 ? "s" : ""} - J'annonce :</span>
+                      {game.requiredRank ? (
+                        <span className="font-semibold text-[var(--game-accent)]">
+                          {formatClaim({ rank: game.requiredRank, count: selectedCards.length })}
+                        </span>
+                      ) : (
+                        <Select value={claimRank} onValueChange={(value) => setClaimRank(value as CardRank)}>
+                          <SelectTrigger className="w-32 bg-[var(--game-secondary)] border-gray-600 text-white">
+                            <SelectValue placeholder="Valeur..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CardRank.options.map((rank) => (
+                              <SelectItem key={rank} value={rank}>
+                                {RANK_LABELS[rank].plural}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  ) : (
+                    <span>
+                      Carte sélectionnée: <span className={`font-semibold ${isTruthfulPlay(selectedCards) ? "text-emerald-400" : "text-red-400"}`}>
+                        {isTruthfulPlay(selectedCards) ? "Vérité" : "Mensonge"}
+                      </span>
+                    </span>
+                  )}
+                </div>
               
-              <Button
-                onClick={handlePlayCard}
-                disabled={!selectedCardId || !isCurrentPlayerTurn || playCardMutation.isPending}
-                className="bg-[var(--game-accent)] hover:bg-amber-600 text-black font-bold transform hover:scale-105 transition-all"
-              >
-                <div className="mr-2 w-0 h-0 border-l-4 border-l-black border-t-2 border-t-transparent border-b-2 border-b-transparent"></div>
-                Jouer la carte
-              </Button>
+                <Button
+                  onClick={handlePlayCard}
+                  disabled={!canPlay || playCardMutation.isPending}
+                  className="bg-[var(--game-accent)] hover:bg-amber-600 text-black font-bold transform hover:scale-105 transition-all"
+                >
+                  <div className="mr-2 w-0 h-0 border-l-4 border-l-black border-t-2 border-t-transparent border-b-2 border-b-transparent"></div>
+                  {selectedCards.length > 1 ? "Jouer les cartes" : "Jouer la carte"}
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
+        </>
         )}
       </main>
 
@@ -525,31 +749,46 @@ export default function Game() {
             <div>
               <h3 className="text-lg font-semibold text-white mb-2">🎴 Les cartes</h3>
               <ul className="space-y-1 ml-4">
-                <li>• <span className="text-[var(--truth-card)] font-semibold">Cartes Vérité</span> : cartes honnêtes</li>
-                <li>• <span className="text-[var(--lie-card)] font-semibold">Cartes Mensonge</span> : cartes de bluff</li>
-                <li>• Chaque joueur commence avec 7 cartes</li>
+                {game.variant === "classic" && (
+                  <>
+                    <li>• <span className="text-[var(--truth-card)] font-semibold">Cartes Vérité</span> : cartes honnêtes</li>
+                    <li>• <span className="text-[var(--lie-card)] font-semibold">Cartes Mensonge</span> : cartes de bluff</li>
+                  </>
+                )}
+                <li>• Un seul paquet par partie : chaque joueur reçoit {game.settings.handSize} carte{game.settings.handSize > 1 ? "s" : ""}, le reste forme la pioche</li>
               </ul>
             </div>
             
             <div>
               <h3 className="text-lg font-semibold text-white mb-2">🔄 Déroulement</h3>
               <ol className="space-y-2 ml-4 list-decimal">
-                <li>À votre tour, jouez une carte <strong>face cachée</strong> au centre</li>
-                <li>Le joueur suivant peut soit :
-                  <ul className="ml-4 mt-1 space-y-1">
-                    <li>- Jouer une carte à son tour</li>
-                    <li>- Cliquer sur <span className="text-[var(--game-danger)] font-bold">"MENTEUR!"</span> pour vous accuser</li>
-                  </ul>
+                <li>À votre tour, vous avez {game.settings.turnTimer} secondes pour jouer une carte <strong>face cachée</strong> au centre</li>
+                <li>Pendant {game.settings.challengeWindow} secondes, n'importe quel autre joueur peut cliquer sur{" "}
+                  <span className="text-[var(--game-danger)] font-bold">"MENTEUR!"</span> pour vous accuser ;
+                  le premier qui accuse l'emporte
                 </li>
-                <li>Si accusé, votre carte est révélée :
+                <li>Sans accusation, le joueur suivant joue à son tour</li>
+                <li>Si accusé, votre carte est révélée (au plus {game.settings.revelationDelay} secondes) :
                   <ul className="ml-4 mt-1 space-y-1">
-                    <li>- Si c'était un <span className="text-[var(--lie-card)]">Mensonge</span> : vous piochez 3 cartes</li>
-                    <li>- Si c'était une <span className="text-[var(--truth-card)]">Vérité</span> : l'accusateur pioche 3 cartes</li>
+                    <li>- Si c'était un <span className="text-[var(--lie-card)]">Mensonge</span> : vous devez {describeChallengePenalty(game.settings)}</li>
+                    <li>- Si c'était une <span className="text-[var(--truth-card)]">Vérité</span> : l'accusateur doit {describeChallengePenalty(game.settings)}</li>
                   </ul>
                 </li>
               </ol>
             </div>
             
+            {game.variant === "menteur" && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-2">🃏 Variante Menteur</h3>
+                <ul className="space-y-1 ml-4">
+                  <li>• On joue avec un jeu de 52 cartes classique</li>
+                  <li>• Posez de 1 à 4 cartes face cachée en annonçant leur valeur (ex : « 3 Dames »)</li>
+                  <li>• Tant que personne n'accuse, tout le monde doit annoncer la même valeur</li>
+                  <li>• Une accusation retourne exactement les cartes posées : une seule carte différente et c'est un mensonge</li>
+                </ul>
+              </div>
+            )}
+            
             <div>
               <h3 className="text-lg font-semibold text-white mb-2">🏆 Victoire</h3>
               <p>Le premier joueur à se débarrasser de toutes ses cartes remporte la partie !</p>
@@ -568,99 +807,164 @@ export default function Game() {
           </DialogHeader>
           
           <div className="text-center space-y-6">
-            {game.revealedCard && (
+            {game.revealedCards.length > 0 && (
               <>
-                <div className="w-32 h-44 mx-auto rounded-xl border-2 flex flex-col items-center justify-center text-white shadow-2xl"
-                     style={{
-                       background: game.revealedCard.type === "truth" 
-                         ? "linear-gradient(to bottom right, var(--truth-card), #059669)"
-                         : "linear-gradient(to bottom right, var(--lie-card), #dc2626)",
-                       borderColor: game.revealedCard.type === "truth" ? "#10b981" : "#ef4444"
-                     }}>
-                  {game.revealedCard.type === "truth" ? (
-                    <Check className="text-4xl mb-3" />
-                  ) : (
-                    <X className="text-4xl mb-3" />
-                  )}
-                  <span className="text-lg font-bold">
-                    {game.revealedCard.type === "truth" ? "VÉRITÉ" : "MENSONGE"}
-                  </span>
+                <div className="flex justify-center space-x-3">
+                  {game.revealedCards.map((card) => (
+                    <PlayingCard key={card.id} card={card} size={game.revealedCards.length > 2 ? "md" : "lg"} />
+                  ))}
                 </div>
                 
                 <div className="space-y-3 text-gray-300">
                   {(() => {
                     const accusedPlayer = game.players.find(p => p.id === game.lastPlayerId);
                     const accusingPlayer = game.players.find(p => p.id === game.accusingPlayerId);
-                    const wasLie = game.revealedCard.type === "lie";
+                    const wasLie = !isTruthfulPlay(game.revealedCards, game.lastClaim);
                     
                     return (
                       <>
-                        <p>
-                          <span className="text-blue-400 font-semibold">{accusedPlayer?.name}</span> avait joué une{" "}
-                          <span className={`font-bold ${wasLie ? "text-[var(--lie-card)]" : "text-[var(--truth-card)]"}`}>
-                            {wasLie ? "Mensonge" : "Vérité"}
-                          </span> !
-                        </p>
+                        {game.lastClaim ? (
+                          <p>
+                            <span className="text-blue-400 font-semibold">{accusedPlayer?.name}</span> avait annoncé{" "}
+                            {formatClaim(game.lastClaim)} :{" "}
+                            <span className={`font-bold ${wasLie ? "text-[var(--lie-card)]" : "text-[var(--truth-card)]"}`}>
+                              {wasLie ? "Mensonge" : "Vérité"}
+                            </span> !
+                          </p>
+                        ) : (
+                          <p>
+                            <span className="text-blue-400 font-semibold">{accusedPlayer?.name}</span> avait joué une{" "}
+                            <span className={`font-bold ${wasLie ? "text-[var(--lie-card)]" : "text-[var(--truth-card)]"}`}>
+                              {wasLie ? "Mensonge" : "Vérité"}
+                            </span> !
+                          </p>
+                        )}
                         <p>
                           <span className="text-red-400 font-semibold">
                             {wasLie ? accusedPlayer?.name : accusingPlayer?.name}
                           </span>{" "}
-                          pioche 3 cartes de pénalité.
+                          ramasse {countChallengePenaltyCards(game.events)} cartes.
                         </p>
                       </>
                     );
                   })()}
                 </div>
                 
+                {/* Who is still reading */}
+                <div className="flex flex-wrap justify-center gap-2">
+                  {game.players.filter(isAttending).map((player) => (
+                    <Badge
+                      key={player.id}
+                      variant="outline"
+                      className={game.revelationAcks.includes(player.id)
+                        ? "border-[var(--game-success)] text-[var(--game-success)]"
+                        : "border-gray-600 text-gray-400"}
+                    >
+                      {game.revelationAcks.includes(player.id) && <Check className="mr-1 h-3 w-3" />}
+                      {player.name}
+                    </Badge>
+                  ))}
+                </div>
+
                 <Button 
                   onClick={handleContinueGame}
-                  disabled={continueGameMutation.isPending}
+                  disabled={continueGameMutation.isPending || hasAcknowledged}
                   className="bg-[var(--game-accent)] hover:bg-amber-600 text-black font-bold"
                 >
-                  Continuer le jeu
+                  {hasAcknowledged ? "En attente des autres joueurs..." : "Continuer le jeu"}
                 </Button>
+
+                <p className="text-xs text-gray-400">
+                  La partie reprend automatiquement dans {timeLeft} s
+                </p>
               </>
             )}
           </div>
         </DialogContent>
       </Dialog>
 
-      {/* Game End Modal */}
+      {/* Round / Match End Modal */}
       <Dialog open={showGameEnd} onOpenChange={() => {}}>
         <DialogContent className="bg-gradient-to-br from-yellow-900/90 to-amber-900/90 border-yellow-600 max-w-md">
           <DialogHeader>
             <DialogTitle className="text-3xl font-bold text-center text-yellow-300 flex items-center justify-center">
               <Star className="mr-3 text-yellow-400" size={32} />
-              Partie terminée !
+              {matchOver
+                ? (game.settings.rounds > 1 ? "Match terminé !" : "Partie terminée !")
+                : `Manche ${game.match.round}/${game.settings.rounds}`}
               <Star className="ml-3 text-yellow-400" size={32} />
             </DialogTitle>
           </DialogHeader>
           
           <div className="text-center space-y-6">
-            <div className="bg-yellow-400/20 rounded-xl p-6 border border-yellow-600/50">
-              <div className="text-6xl mb-4">🏆</div>
-              <p className="text-xl text-yellow-200 mb-2">Félicitations !</p>
-              <p className="text-2xl font-bold text-yellow-300">
-                {winner} a gagné !
-              </p>
-              <p className="text-sm text-yellow-200 mt-3">
-                {winner === playerName ? "Vous avez" : `${winner} a`} réussi à se débarrasser de toutes {winner === playerName ? "vos" : "ses"} cartes !
-              </p>
-            </div>
+            {winner && (
+              <div className="bg-yellow-400/20 rounded-xl p-6 border border-yellow-600/50">
+                <div className="text-6xl mb-4">🏆</div>
+                <p className="text-xl text-yellow-200 mb-2">{matchOver ? "Félicitations !" : "Fin de la manche"}</p>
+                <p className="text-2xl font-bold text-yellow-300">
+                  {winner} {matchOver && game.settings.rounds > 1 ? "remporte le match" : "a gagné"} !
+                </p>
+                {!(matchOver && game.settings.rounds > 1) && (
+                  <p className="text-sm text-yellow-200 mt-3">
+                    {winner === playerName ? "Vous avez" : `${winner} a`} réussi à se débarrasser de toutes {winner === playerName ? "vos" : "ses"} cartes !
+                  </p>
+                )}
+              </div>
+            )}
+
+            {game.match.results.length > 0 && (
+              <MatchStandings match={game.match} players={game.players} />
+            )}
+
+            {game.seed !== undefined && (
+              <p className="text-xs text-yellow-200/70 font-mono">Graine : {game.seed}</p>
+            )}
             
             <div className="space-y-3">
-              <Button 
-                onClick={() => navigate("/")}
-                className="w-full bg-yellow-600 hover:bg-yellow-700 text-white font-bold text-lg py-3"
-              >
-                Retourner au lobby
-              </Button>
+              {!matchOver && (isHost ? (
+                <Button 
+                  onClick={() => nextRoundMutation.mutate()}
+                  disabled={nextRoundMutation.isPending}
+                  className="w-full bg-yellow-600 hover:bg-yellow-700 text-white font-bold text-lg py-3"
+                >
+                  Manche suivante
+                </Button>
+              ) : (
+                <p className="text-sm text-yellow-200">En attente de l'hôte pour la manche suivante...</p>
+              ))}
+              {matchOver && isHost && (
+                <Button 
+                  onClick={() => rematchMutation.mutate()}
+                  disabled={rematchMutation.isPending}
+                  className="w-full bg-yellow-600 hover:bg-yellow-700 text-white font-bold text-lg py-3"
+                >
+                  Revanche
+                </Button>
+              )}
+              {matchOver && (
+                <>
+                  <Button 
+                    onClick={() => navigate("/")}
+                    variant="outline"
+                    className="w-full border-yellow-600 text-yellow-300 hover:text-yellow-200 hover:bg-yellow-800/30"
+                  >
+                    Retourner au lobby
+                  </Button>
+                  <Button 
+                    onClick={() => navigate(`/game/${gameId}/replay`)}
+                    variant="outline"
+                    className="w-full border-yellow-600 text-yellow-300 hover:text-yellow-200 hover:bg-yellow-800/30"
+                  >
+                    Revoir la partie
+                  </Button>
+                </>
+              )}
               <Button 
                 onClick={() => setShowGameEnd(false)}
                 variant="ghost"
                 className="w-full text-yellow-300 hover:text-yellow-200 hover:bg-yellow-800/30"
               >
-                Voir les résultats
+                Voir le plateau
               </Button>
             </div>
           </div>
@@ -5,17 +5,26 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { GameSettingsPanel } from "@/components/game-settings-panel";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/rule-errors";
+import { describeChallengePenalty } from "@/lib/game-utils";
 import { useToast } from "@/hooks/use-toast";
-import { VenetianMask, Users, Play, Plus } from "lucide-react";
-import type { CreateGameRequest, JoinGameRequest } from "@shared/schema";
+import { VenetianMask, Users, Play, Plus, Settings2, Eye } from "lucide-react";
+import { DEFAULT_GAME_SETTINGS, type CreateGameRequest, type JoinGameRequest, type GameVariant, type GameSettings } from "@shared/schema";
 
 export default function Lobby() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [playerName, setPlayerName] = useState("");
   const [gameId, setGameId] = useState("");
+  const [variant, setVariant] = useState<GameVariant>("classic");
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS);
+  // Development only: replays the exact deals of a reported game
+  const [seed, setSeed] = useState("");
 
   const createGameMutation = useMutation({
     mutationFn: async (request: CreateGameRequest) => {
@@ -24,13 +33,14 @@ export default function Lobby() {
     },
     onSuccess: (data) => {
       localStorage.setItem("playerId", data.playerId);
+      localStorage.setItem("playerToken", data.playerToken);
       localStorage.setItem("playerName", playerName);
       navigate(`/game/${data.game.id}`);
     },
     onError: (error) => {
       toast({
         title: "Erreur",
-        description: error.message,
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -43,13 +53,14 @@ export default function Lobby() {
     },
     onSuccess: (data) => {
       localStorage.setItem("playerId", data.playerId);
+      localStorage.setItem("playerToken", data.playerToken);
       localStorage.setItem("playerName", playerName);
       navigate(`/game/${data.game.id}`);
     },
     onError: (error) => {
       toast({
         title: "Erreur",
-        description: error.message,
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -64,7 +75,7 @@ export default function Lobby() {
       });
       return;
     }
-    createGameMutation.mutate({ playerName: playerName.trim() });
+    createGameMutation.mutate({ playerName: playerName.trim(), variant, settings, seed: seed.trim() ? Number(seed) : undefined });
   };
 
   const handleJoinGame = () => {
@@ -82,6 +93,19 @@ export default function Lobby() {
     });
   };
 
+  // Spectators need no name and take no seat
+  const handleWatchGame = () => {
+    if (!gameId.trim()) {
+      toast({
+        title: "Erreur",
+        description: "Veuillez entrer l'ID de la partie",
+        variant: "destructive",
+      });
+      return;
+    }
+    navigate(`/game/${gameId.trim().toUpperCase()}/watch`);
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="w-full max-w-md space-y-6">
@@ -126,7 +150,49 @@ export default function Lobby() {
               Créer une partie
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <RadioGroup
+              value={variant}
+              onValueChange={(value) => setVariant(value as GameVariant)}
+              className="space-y-2"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="classic" id="variant-classic" />
+                <Label htmlFor="variant-classic" className="text-gray-300">
+                  Classique <span className="text-gray-400">— cartes Vérité / Mensonge</span>
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="menteur" id="variant-menteur" />
+                <Label htmlFor="variant-menteur" className="text-gray-300">
+                  Menteur <span className="text-gray-400">— jeu de 52 cartes et annonces</span>
+                </Label>
+              </div>
+            </RadioGroup>
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-gray-300 hover:text-white px-0">
+                  <Settings2 className="mr-2 h-4 w-4" />
+                  Règles de la maison
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-3">
+                <GameSettingsPanel variant={variant} settings={settings} onChange={setSettings} />
+                {import.meta.env.DEV && (
+                  <div className="space-y-1 mt-3">
+                    <Label htmlFor="settings-seed" className="text-xs text-gray-300">Graine (développement)</Label>
+                    <Input
+                      id="settings-seed"
+                      inputMode="numeric"
+                      placeholder="Aléatoire"
+                      value={seed}
+                      onChange={(e) => setSeed(e.target.value.replace(/\D/g, ""))}
+                      className="bg-[var(--game-secondary)] border-gray-600 text-white font-mono"
+                    />
+                  </div>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
             <Button
               onClick={handleCreateGame}
               disabled={createGameMutation.isPending}
@@ -186,6 +252,14 @@ export default function Lobby() {
                 </>
               )}
             </Button>
+            <Button
+              onClick={handleWatchGame}
+              variant="outline"
+              className="w-full border-gray-600 text-gray-300 hover:text-white"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Regarder en spectateur
+            </Button>
           </CardContent>
         </Card>
 
@@ -198,7 +272,7 @@ export default function Lobby() {
                 <li>• Débarrassez-vous de toutes vos cartes</li>
                 <li>• Jouez des cartes face cachée</li>
                 <li>• Accusez les menteurs avec "MENTEUR!"</li>
-                <li>• Pénalité : +3 cartes si vous vous trompez</li>
+                <li>• Pénalité : {describeChallengePenalty(settings)} si vous vous trompez</li>
               </ul>
             </div>
           </CardContent>
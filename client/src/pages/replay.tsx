@@ -0,0 +1,249 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { PlayingCard } from "@/components/playing-card";
+import {
+  VenetianMask,
+  DoorClosed,
+  AlertTriangle,
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  History,
+  LayersIcon
+} from "lucide-react";
+import { formatClaim } from "@shared/cards";
+import { replayGame, type GameReplay } from "@shared/engine";
+
+const STEP_INTERVAL_MS = 1200;
+
+export default function Replay() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const [, navigate] = useLocation();
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const { data: replay, isLoading, error } = useQuery<GameReplay>({
+    queryKey: ["/api/games", gameId, "replay"],
+  });
+
+  // The server only sends the action log; every state is rebuilt locally
+  // with the same engine the server ran
+  const states = useMemo(() => replay ? replayGame(replay.actions) : [], [replay]);
+  const lastStep = Math.max(states.length - 1, 0);
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    if (step >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, lastStep]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-white">Chargement du replay...</div>
+      </div>
+    );
+  }
+
+  const state = states[step];
+  if (error || !state) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">Replay indisponible</h1>
+            <p className="text-sm text-gray-600 mb-4">
+              Le replay n'est disponible qu'une fois la partie terminée.
+            </p>
+            <Button onClick={() => navigate("/")} className="w-full">
+              Retour au lobby
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const previousEventCount = step > 0 ? states[step - 1].events.length : 0;
+  const stepEvents = state.events.slice(previousEventCount);
+  const lastPlayer = state.players.find(p => p.id === state.lastPlayerId);
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-[var(--game-secondary)]/80 backdrop-blur-sm border-b border-gray-700 p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-[var(--game-accent)] rounded-lg flex items-center justify-center">
+              <VenetianMask className="text-white text-lg" />
+            </div>
+            <h1 className="text-2xl font-bold">Replay</h1>
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <div className="text-sm text-gray-300">
+              <span>Partie: <span className="text-[var(--game-accent)] font-mono">#{state.id}</span></span>
+              <span className="ml-4">Graine: <span className="font-mono">{state.seed}</span></span>
+            </div>
+
+            <Button onClick={() => navigate("/")} variant="destructive" size="sm">
+              <DoorClosed className="mr-2 h-4 w-4" />
+              Quitter
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 max-w-7xl mx-auto space-y-6">
+
+        {/* Playback Controls */}
+        <div className="bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-4 border border-gray-700">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { setPlaying(false); setStep(Math.max(step - 1, 0)); }}
+              disabled={step === 0}
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                if (step >= lastStep) {
+                  setStep(0);
+                }
+                setPlaying(!playing);
+              }}
+              className="bg-[var(--game-accent)] hover:bg-amber-600 text-black"
+            >
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { setPlaying(false); setStep(Math.min(step + 1, lastStep)); }}
+              disabled={step >= lastStep}
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+
+            <Slider
+              value={[step]}
+              min={0}
+              max={lastStep}
+              step={1}
+              onValueChange={([value]) => { setPlaying(false); setStep(value); }}
+              className="flex-1"
+            />
+
+            <span className="text-sm text-gray-300 font-mono">
+              {step + 1}/{states.length}
+            </span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+
+          {/* Every hand, face up */}
+          <div className="lg:col-span-8 space-y-4">
+            {state.players.map((player) => (
+              <div
+                key={player.id}
+                className={`bg-[var(--game-secondary)]/40 rounded-xl p-4 border ${
+                  player.id === state.currentPlayerId && state.phase === "playing"
+                    ? "border-[var(--game-accent)]"
+                    : "border-gray-700"
+                }`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-sm font-bold">
+                      {player.avatar}
+                    </div>
+                    <span className="font-medium">{player.name}</span>
+                  </div>
+                  <span className="text-sm text-gray-400">{player.cards.length} cartes</span>
+                </div>
+
+                <div className="flex space-x-2 overflow-x-auto pb-2">
+                  {player.cards.map((card) => (
+                    <PlayingCard key={card.id} card={card} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="lg:col-span-4 space-y-6">
+
+            {/* Center Pile */}
+            <div className="bg-gradient-to-br from-emerald-900/20 to-green-800/20 rounded-xl p-4 border-2 border-emerald-700/30">
+              <h3 className="text-sm font-semibold text-emerald-300 mb-3 flex items-center">
+                <LayersIcon className="mr-2 h-4 w-4" />
+                Pile centrale ({state.centerPile.length} cartes)
+              </h3>
+              <p className="text-xs text-gray-400 mb-3">Pioche : {state.drawPile.length} cartes</p>
+
+              {state.lastPlayedCards.length > 0 ? (
+                <>
+                  <div className="flex space-x-2 mb-3">
+                    {state.lastPlayedCards.map((card) => (
+                      <PlayingCard key={card.id} card={card} />
+                    ))}
+                  </div>
+                  {lastPlayer && (
+                    <p className="text-sm text-emerald-300">
+                      {state.lastClaim
+                        ? `${lastPlayer.name} annonce ${formatClaim(state.lastClaim)}`
+                        : `${lastPlayer.name} a joué une carte`}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-gray-400">Aucune carte jouée</p>
+              )}
+            </div>
+
+            {/* What this step did */}
+            <div className="bg-[var(--game-secondary)]/40 rounded-xl p-4 border border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+                <History className="mr-2 h-4 w-4" />
+                Action {step + 1}
+              </h3>
+
+              <div className="space-y-2">
+                {stepEvents.length > 0 ? stepEvents.map((event) => (
+                  <div
+                    key={event.id}
+                    className={`text-sm py-2 px-3 rounded-lg ${
+                      event.type === "accusation"
+                        ? "bg-red-900/20 border-l-2 border-red-500"
+                        : "bg-[var(--game-secondary)]/30"
+                    }`}
+                  >
+                    {event.message}
+                  </div>
+                )) : (
+                  <p className="text-sm text-gray-400">La partie reprend</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useParams, useLocation } from "wouter";
+import { useEffect, useRef, useState } from "react";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { getProtocolErrorMessage } from "@/lib/rule-errors";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PlayingCard } from "@/components/playing-card";
+import { MatchStandings } from "@/components/match-standings";
+import { BotBadge } from "@/components/bot-badge";
+import { PresenceIndicator } from "@/components/presence-indicator";
+import {
+  VenetianMask,
+  DoorClosed,
+  Clock,
+  AlertTriangle,
+  History,
+  LayersIcon,
+  Eye,
+  HelpCircle
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { fr } from "date-fns/locale";
+import type { PlayerView } from "@shared/schema";
+import { formatClaim, isTruthfulPlay, RANK_LABELS } from "@shared/cards";
+import { applyViewUpdate } from "@shared/view-patch";
+
+// Read-only view of a game for people without a seat. Spectators only get
+// the handless projection, over the WebSocket and possibly a few seconds late.
+export default function Watch() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const [, navigate] = useLocation();
+  const [game, setGame] = useState<PlayerView>();
+  const [error, setError] = useState<string>();
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [clockOffset, setClockOffset] = useState(0);
+
+  // Latest view, for patches that arrive before the next render
+  const gameRef = useRef<PlayerView>();
+
+  const { connected, sendMessage } = useWebSocket(`/ws`, {
+    onMessage: (message) => {
+      switch (message.type) {
+        case "game_state":
+        case "player_joined":
+        case "card_played":
+        case "accusation":
+        case "revelation": {
+          const view = applyViewUpdate(gameRef.current, message.data);
+          if (!view) {
+            sendMessage({ type: "resync" });
+            break;
+          }
+          gameRef.current = view;
+          setGame(view);
+          break;
+        }
+        case "spectators":
+          setSpectatorCount(message.data.count);
+          break;
+        case "error":
+          setError(getProtocolErrorMessage(message.data.code));
+          break;
+      }
+    },
+    onConnect: (send) => {
+      send({
+        type: "watch_game",
+        gameId
+      });
+    }
+  });
+
+  // Views arrive late by the spectator delay, and so does their server time:
+  // the countdown stays in step with what is on screen
+  useEffect(() => {
+    if (game) {
+      setClockOffset(game.serverTime - Date.now());
+    }
+  }, [game?.serverTime]);
+
+  useEffect(() => {
+    const deadline = game?.turnDeadline ?? game?.challengeDeadline ?? game?.revelationDeadline;
+    if (!deadline) {
+      setTimeLeft(0);
+      return;
+    }
+
+    const update = () => {
+      setTimeLeft(Math.max(0, Math.ceil((deadline - (Date.now() + clockOffset)) / 1000)));
+    };
+    update();
+
+    const timer = setInterval(update, 250);
+    return () => clearInterval(timer);
+  }, [game?.turnDeadline, game?.challengeDeadline, game?.revelationDeadline, clockOffset]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">Impossible de suivre la partie</h1>
+            <p className="text-sm text-gray-600 mb-4">{error}</p>
+            <Button onClick={() => navigate("/")} className="w-full">
+              Retour au lobby
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!game) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-white">{connected ? "Chargement de la partie..." : "Connexion..."}</div>
+      </div>
+    );
+  }
+
+  const lastPlayer = game.players.find(p => p.id === game.lastPlayerId);
+  const accusingPlayer = game.players.find(p => p.id === game.accusingPlayerId);
+  const wasLie = !isTruthfulPlay(game.revealedCards, game.lastClaim);
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="bg-[var(--game-secondary)]/80 backdrop-blur-sm border-b border-gray-700 p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-[var(--game-accent)] rounded-lg flex items-center justify-center">
+              <VenetianMask className="text-white text-lg" />
+            </div>
+            <h1 className="text-2xl font-bold">Menteur</h1>
+            <Badge variant="outline" className="border-gray-500 text-gray-300">
+              <Eye className="mr-1 h-3 w-3" />
+              Spectateur
+            </Badge>
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <div className="text-sm text-gray-300">
+              <span>Partie: <span className="text-[var(--game-accent)] font-mono">#{game.id}</span></span>
+              <span className="mx-2">•</span>
+              <span>{game.players.length}</span>/{game.settings.maxPlayers} joueurs
+              <span className="mx-2">•</span>
+              <Eye className="inline h-4 w-4 mr-1" />
+              {spectatorCount} spectateur{spectatorCount > 1 ? "s" : ""}
+            </div>
+
+            <Button onClick={() => navigate("/")} variant="destructive" size="sm">
+              <DoorClosed className="mr-2 h-4 w-4" />
+              Quitter
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 max-w-7xl mx-auto space-y-6">
+
+        {/* Game Status Bar */}
+        <div className="bg-[var(--game-secondary)]/60 backdrop-blur-sm rounded-xl p-4 border border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-6">
+              <span className="text-lg font-medium">
+                {game.phase === "waiting" && "En attente du début de la partie"}
+                {game.phase === "intermission" && `Fin de la manche ${game.match.round}/${game.settings.rounds}`}
+                {game.phase === "finished" && "Partie terminée"}
+                {(game.phase === "playing" || game.phase === "accusation" || game.phase === "revelation") && (
+                  <>
+                    {game.phase === "accusation" ? "Accusations ouvertes, puis tour de " : "Tour de "}
+                    <span className="text-[var(--game-accent)]">
+                      {game.players.find(p => p.id === game.currentPlayerId)?.name}
+                    </span>
+                  </>
+                )}
+              </span>
+
+              <div className="text-sm text-gray-300">
+                Cartes en jeu: <span className="text-white font-semibold">{game.centerPileCount}</span>
+              </div>
+
+              <div className="text-sm text-gray-300">
+                Pioche: <span className="text-white font-semibold">{game.drawPileCount}</span>
+              </div>
+
+              {game.variant === "menteur" && (
+                <div className="text-sm text-gray-300">
+                  Valeur demandée: <span className="text-white font-semibold">
+                    {game.requiredRank ? RANK_LABELS[game.requiredRank].plural : "au choix"}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-4 text-sm">
+              {game.settings.spectatorDelay > 0 && (
+                <span className="text-gray-400">Différé de {game.settings.spectatorDelay} s</span>
+              )}
+              <div className="flex items-center space-x-2">
+                <Clock className="h-4 w-4 text-gray-400" />
+                <span className="font-mono">
+                  {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+
+          <div className="lg:col-span-8 space-y-6">
+
+            {/* Every seat, cards face down */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {game.players.map((player) => (
+                <div
+                  key={player.id}
+                  className={`bg-[var(--game-secondary)]/40 rounded-xl p-4 border ${
+                    player.id === game.currentPlayerId && game.phase === "playing"
+                      ? "border-[var(--game-accent)]"
+                      : "border-gray-700"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-sm font-bold">
+                        {player.avatar}
+                      </div>
+                      <span className="font-medium">{player.name}</span>
+                      {player.bot && <BotBadge strategy={player.bot} />}
+                      <PresenceIndicator presence={player.presence} />
+                    </div>
+                    <span className="text-sm text-gray-400">{player.cardCount} cartes</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Center Play Area */}
+            <div className="bg-gradient-to-br from-emerald-900/20 to-green-800/20 rounded-2xl p-8 border-2 border-emerald-700/30 min-h-64 flex flex-col items-center justify-center space-y-4">
+              {game.phase === "revelation" && game.revealedCards.length > 0 ? (
+                <>
+                  <div className="flex justify-center space-x-3">
+                    {game.revealedCards.map((card) => (
+                      <PlayingCard key={card.id} card={card} />
+                    ))}
+                  </div>
+                  <p className="text-gray-300">
+                    <span className="text-red-400 font-semibold">{accusingPlayer?.name}</span> accuse{" "}
+                    <span className="text-blue-400 font-semibold">{lastPlayer?.name}</span> :{" "}
+                    <span className={`font-bold ${wasLie ? "text-[var(--lie-card)]" : "text-[var(--truth-card)]"}`}>
+                      {wasLie ? "Mensonge" : "Vérité"}
+                    </span> !
+                  </p>
+                </>
+              ) : game.centerPileCount > 0 ? (
+                <>
+                  <div className="w-24 h-36 bg-gradient-to-br from-indigo-600 to-purple-700 rounded-lg border-2 border-gray-600 shadow-2xl flex items-center justify-center">
+                    <HelpCircle className="text-white text-2xl" />
+                  </div>
+                  {lastPlayer && (
+                    <p className="text-sm text-emerald-300">
+                      {game.lastClaim
+                        ? `${lastPlayer.name} annonce ${formatClaim(game.lastClaim)}`
+                        : `${lastPlayer.name} a joué une carte`}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <div className="text-gray-400 text-center">
+                  <LayersIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>Aucune carte jouée</p>
+                </div>
+              )}
+            </div>
+
+            {game.match.results.length > 0 && (
+              <div className="bg-gradient-to-br from-yellow-900/40 to-amber-900/40 rounded-xl p-4 border border-yellow-700/50">
+                <MatchStandings match={game.match} players={game.players} />
+              </div>
+            )}
+          </div>
+
+          {/* Game Log */}
+          <div className="lg:col-span-4">
+            <div className="bg-[var(--game-secondary)]/40 rounded-xl p-4 border border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+                <History className="mr-2 h-4 w-4" />
+                Historique du jeu
+              </h3>
+
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {game.events.slice(-10).reverse().map((event) => (
+                  <div
+                    key={event.id}
+                    className={`text-sm py-2 px-3 rounded-lg ${
+                      event.type === "accusation"
+                        ? "bg-red-900/20 border-l-2 border-red-500"
+                        : "bg-[var(--game-secondary)]/30"
+                    }`}
+                  >
+                    {event.message}
+                    <span className="text-xs text-gray-400 ml-2">
+                      {formatDistanceToNow(event.timestamp, { addSuffix: true, locale: fr })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
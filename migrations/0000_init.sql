@@ -0,0 +1,61 @@
+CREATE TABLE "game_events" (
+	"game_id" varchar NOT NULL,
+	"seq" integer NOT NULL,
+	"event" jsonb NOT NULL,
+	CONSTRAINT "game_events_game_id_seq_pk" PRIMARY KEY("game_id","seq")
+);
+--> statement-breakpoint
+CREATE TABLE "game_hands" (
+	"game_id" varchar NOT NULL,
+	"player_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"card_id" varchar NOT NULL,
+	"card" jsonb NOT NULL,
+	CONSTRAINT "game_hands_game_id_player_id_position_pk" PRIMARY KEY("game_id","player_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE "game_piles" (
+	"game_id" varchar NOT NULL,
+	"pile" text NOT NULL,
+	"position" integer NOT NULL,
+	"card_id" varchar NOT NULL,
+	"card" jsonb NOT NULL,
+	CONSTRAINT "game_piles_game_id_pile_position_pk" PRIMARY KEY("game_id","pile","position")
+);
+--> statement-breakpoint
+CREATE TABLE "game_seats" (
+	"game_id" varchar NOT NULL,
+	"player_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"name" text NOT NULL,
+	"player" jsonb NOT NULL,
+	CONSTRAINT "game_seats_game_id_player_id_pk" PRIMARY KEY("game_id","player_id")
+);
+--> statement-breakpoint
+CREATE TABLE "games" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"variant" text NOT NULL,
+	"phase" text NOT NULL,
+	"current_player_id" varchar NOT NULL,
+	"state" jsonb NOT NULL,
+	"updated_at" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "player_sessions" (
+	"token" varchar PRIMARY KEY NOT NULL,
+	"game_id" varchar NOT NULL,
+	"player_id" varchar NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "game_events" ADD CONSTRAINT "game_events_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_hands" ADD CONSTRAINT "game_hands_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_piles" ADD CONSTRAINT "game_piles_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_seats" ADD CONSTRAINT "game_seats_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_sessions" ADD CONSTRAINT "player_sessions_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
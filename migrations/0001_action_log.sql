@@ -0,0 +1,9 @@
+CREATE TABLE "game_actions" (
+	"game_id" varchar NOT NULL,
+	"seq" integer NOT NULL,
+	"seed" bigint NOT NULL,
+	"action" jsonb NOT NULL,
+	CONSTRAINT "game_actions_game_id_seq_pk" PRIMARY KEY("game_id","seq")
+);
+--> statement-breakpoint
+ALTER TABLE "game_actions" ADD CONSTRAINT "game_actions_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
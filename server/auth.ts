@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from "express";
+import type { IStorage, PlayerSession } from "./storage";
+
+export function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return undefined;
+  }
+  return header.slice("Bearer ".length).trim() || undefined;
+}
+
+// Resolves the player token of the request and makes sure it belongs to the
+// game named in the URL. The session is exposed as `res.locals.session`.
+export const requirePlayerSession = (storage: IStorage) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) {
+      return res.status(401).json({ message: "Missing player token" });
+    }
+
+    const session = await storage.getPlayerSession(token);
+    if (!session) {
+      return res.status(401).json({ message: "Invalid player token" });
+    }
+
+    if (session.gameId !== req.params.gameId) {
+      return res.status(403).json({ message: "Player token is not valid for this game" });
+    }
+
+    res.locals.session = session;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function getSession(res: Response): PlayerSession {
+  return res.locals.session as PlayerSession;
+}
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { GameState } from "@shared/schema";
+import type { GameAction } from "@shared/engine";
+import { apply, createAction, newGame } from "@shared/engine/test-helpers";
+import { BotRunner } from "./bot-runner";
+
+const NOW = 100_000;
+
+// alice has played her first card and the two random bots may call it
+function accusationState(): GameState {
+  let state = newGame(createAction({ at: NOW }));
+  for (const botId of ["bot-1", "bot-2"]) {
+    state = apply(state, { type: "add_bot", playerId: "alice", botId, botName: botId, strategy: "random", at: NOW });
+  }
+  state = apply(state, { type: "set_ready", playerId: "alice", ready: true, at: NOW });
+  state = apply(state, { type: "start", playerId: "alice", at: NOW });
+  const card = state.players[0].cards[0];
+  return apply(state, {
+    type: "play_cards",
+    playerId: "alice",
+    cardIds: [card.id],
+    claim: { rank: "rank" in card ? card.rank : "A", count: 1 },
+    at: NOW,
+  });
+}
+
+// The moves one instance's runner makes from a state, whatever its think delays
+function movesFrom(state: GameState, thinkRng: () => number): Omit<GameAction, "at">[] {
+  const moves: Omit<GameAction, "at">[] = [];
+  new BotRunner((_gameId, { at, ...move }) => moves.push(move), thinkRng).schedule(state);
+  vi.runAllTimers();
+  return moves.sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+}
+
+describe("BotRunner", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("makes the same moves from the same state on every instance", () => {
+    const accusation = accusationState();
+    expect(movesFrom(accusation, () => 0.1)).toEqual(movesFrom(accusation, () => 0.9));
+
+    const botTurn = apply(accusation, { type: "close_challenge", at: accusation.challengeDeadline! });
+    const plays = movesFrom(botTurn, () => 0.1);
+    expect(plays).toHaveLength(1);
+    expect(plays[0]).toMatchObject({ type: "play_cards", playerId: "bot-1" });
+    expect(movesFrom(botTurn, () => 0.9)).toEqual(plays);
+  });
+
+  it("knows which games it has moves pending for", () => {
+    const runner = new BotRunner(() => undefined);
+    const state = apply(accusationState(), { type: "close_challenge", at: NOW + 60_000 });
+    runner.schedule(state);
+    expect(runner.has(state.id)).toBe(true);
+    expect(runner.has("other")).toBe(false);
+    runner.cancel(state.id);
+    expect(runner.has(state.id)).toBe(false);
+  });
+});
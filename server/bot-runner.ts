@@ -0,0 +1,136 @@
+import type { GameState, Player } from "@shared/schema";
+import { createRng, deriveSeed, type GameAction, type Rng } from "@shared/engine";
+import { BOT_STRATEGIES } from "@shared/bots";
+import { projectGameForPlayer } from "./projection";
+
+type BotActionHandler = (gameId: string, action: GameAction) => void;
+
+// Think time ranges in milliseconds, so bots do not answer instantly
+const THINK_MS = {
+  play: [1200, 3000],
+  accuse: [600, 2500],
+  continue: [1500, 3500],
+} as const;
+
+// Leave this much of the challenge window for the server to close it
+const CHALLENGE_MARGIN_MS = 300;
+
+interface PendingMove {
+  // Identifies the situation the bot is reacting to
+  key: string;
+  timer: NodeJS.Timeout;
+}
+
+interface PlannedMove {
+  key: string;
+  delay: number;
+  decide: (at: number) => GameAction | undefined;
+}
+
+// Drives every bot seat of a game from its saved states. Each bot gets at
+// most one pending move, decided from its own projection of the state after
+// a think delay; the handler submits it like any other move, and the engine
+// rejects it if the game moved on in the meantime. Decisions draw only from
+// the saved state, so every instance that arms the same move makes the same
+// one, and the copies are rejected like any late move.
+export class BotRunner {
+  private pending = new Map<string, PendingMove>();
+
+  constructor(private onAction: BotActionHandler, private rng: Rng = Math.random) {}
+
+  schedule(game: GameState) {
+    const planned = new Set<string>();
+
+    for (const bot of game.players.filter(p => p.bot)) {
+      const slot = `${game.id}:${bot.id}`;
+      const move = this.plan(game, bot);
+      if (!move) {
+        continue;
+      }
+      planned.add(slot);
+
+      // Still thinking about the same situation
+      if (this.pending.get(slot)?.key === move.key) {
+        continue;
+      }
+      this.clear(slot);
+      this.pending.set(slot, {
+        key: move.key,
+        timer: setTimeout(() => {
+          this.pending.delete(slot);
+          const action = move.decide(Date.now());
+          if (action) {
+            this.onAction(game.id, action);
+          }
+        }, move.delay),
+      });
+    }
+
+    Array.from(this.pending.keys())
+      .filter(slot => slot.startsWith(`${game.id}:`) && !planned.has(slot))
+      .forEach(slot => this.clear(slot));
+  }
+
+  has(gameId: string): boolean {
+    return Array.from(this.pending.keys()).some(slot => slot.startsWith(`${gameId}:`));
+  }
+
+  cancel(gameId: string) {
+    Array.from(this.pending.keys())
+      .filter(slot => slot.startsWith(`${gameId}:`))
+      .forEach(slot => this.clear(slot));
+  }
+
+  private plan(game: GameState, bot: Player): PlannedMove | undefined {
+    const strategy = BOT_STRATEGIES[bot.bot!];
+    const view = projectGameForPlayer(game, bot.id);
+    const playerId = bot.id;
+    // Negative indexes are never an action's, and each seat gets its own stream
+    const rng = createRng(deriveSeed(deriveSeed(game.seed, -game.version), game.players.indexOf(bot)));
+
+    if (game.phase === "playing" && game.currentPlayerId === bot.id && bot.cards.length > 0) {
+      return {
+        key: `play:${game.turnDeadline}`,
+        delay: this.think(THINK_MS.play),
+        decide: (at) => ({ type: "play_cards", playerId, ...strategy.play(view, rng), at }),
+      };
+    }
+
+    if (game.phase === "accusation" && game.lastPlayerId && game.lastPlayerId !== bot.id && game.challengeDeadline) {
+      const targetId = game.lastPlayerId;
+      const remaining = game.challengeDeadline - Date.now() - CHALLENGE_MARGIN_MS;
+      if (remaining <= 0) {
+        return undefined;
+      }
+      return {
+        key: `accuse:${game.challengeDeadline}`,
+        delay: Math.min(this.think(THINK_MS.accuse), remaining),
+        decide: (at) => strategy.shouldAccuse(view, rng)
+          ? { type: "accuse", playerId, targetId, at }
+          : undefined,
+      };
+    }
+
+    if (game.phase === "revelation" && !game.revelationAcks.includes(bot.id)) {
+      return {
+        key: `continue:${game.revelationDeadline}`,
+        delay: this.think(THINK_MS.continue),
+        decide: (at) => ({ type: "continue", playerId, at }),
+      };
+    }
+
+    return undefined;
+  }
+
+  private think([min, max]: readonly [number, number]): number {
+    return min + Math.floor(this.rng() * (max - min));
+  }
+
+  private clear(slot: string) {
+    const move = this.pending.get(slot);
+    if (move) {
+      clearTimeout(move.timer);
+      this.pending.delete(slot);
+    }
+  }
+}
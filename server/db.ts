@@ -0,0 +1,28 @@
+import path from "path";
+import type { Database } from "./pg-storage";
+
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Hosted Postgres (Neon) from DATABASE_URL
+export async function connectPostgres(url: string): Promise<Database> {
+  const { Pool, neonConfig } = await import("@neondatabase/serverless");
+  const { drizzle } = await import("drizzle-orm/neon-serverless");
+  const { migrate } = await import("drizzle-orm/neon-serverless/migrator");
+  const { default: ws } = await import("ws");
+
+  neonConfig.webSocketConstructor = ws;
+  const db = drizzle({ client: new Pool({ connectionString: url }) });
+  await migrate(db, { migrationsFolder });
+  return db;
+}
+
+// Embedded Postgres (PGlite), kept in memory unless a data directory is given
+export async function connectPglite(dataDir?: string): Promise<Database> {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+
+  const db = drizzle({ client: new PGlite(dataDir) });
+  await migrate(db, { migrationsFolder });
+  return db;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+import RedisMock from "ioredis-mock";
+import { MemGameBus, RedisGameBus, type GameBusEvent } from "./game-bus";
+
+const event: GameBusEvent = { type: "view", gameId: "game", version: 7, messageType: "card_played", exceptClientId: "client" };
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+// One instance: a connection to publish on and a subscribed one
+async function redisInstance(): Promise<RedisGameBus> {
+  const bus = new RedisGameBus(new RedisMock(), new RedisMock());
+  await bus.connect();
+  return bus;
+}
+
+describe("MemGameBus", () => {
+  it("hands every event to every handler", async () => {
+    const bus = new MemGameBus();
+    const first = vi.fn();
+    const second = vi.fn();
+    bus.subscribe(first);
+    bus.subscribe(second);
+
+    await bus.publish(event);
+    expect(first).toHaveBeenCalledWith(event);
+    expect(second).toHaveBeenCalledWith(event);
+  });
+});
+
+describe("RedisGameBus", () => {
+  it("delivers an event to every instance, the sender included", async () => {
+    const sender = await redisInstance();
+    const other = await redisInstance();
+    const sent = vi.fn();
+    const received = vi.fn();
+    sender.subscribe(sent);
+    other.subscribe(received);
+
+    await sender.publish(event);
+    await settle();
+    expect(sent).toHaveBeenCalledWith(event);
+    expect(received).toHaveBeenCalledWith(event);
+  });
+
+  it("skips malformed payloads and other channels", async () => {
+    const publisher = new RedisMock();
+    const bus = await redisInstance();
+    const handler = vi.fn();
+    bus.subscribe(handler);
+    const logged = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await publisher.publish("menteur:game-bus", "{not json");
+    await publisher.publish("another-channel", JSON.stringify(event));
+    await settle();
+    expect(handler).not.toHaveBeenCalled();
+    expect(logged).toHaveBeenCalledWith("Malformed game bus event:", "{not json");
+    logged.mockRestore();
+  });
+});
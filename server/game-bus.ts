@@ -0,0 +1,91 @@
+import type { GameViewMessage, PublicPlayer, ServerMessage } from "@shared/schema";
+
+// What one instance tells every instance, itself included, so each can
+// reach the sockets it holds
+export type GameBusEvent =
+  // Sent as is to every socket of the game
+  | { type: "message"; gameId: string; message: ServerMessage }
+  // Every socket of the game gets its own projection of the state, which
+  // each instance loads from storage: hands never go over the bus
+  | {
+      type: "view";
+      gameId: string;
+      // The version saved by the action this event announces
+      version: number;
+      messageType: GameViewMessage["type"];
+      // The seat a player_joined message announces
+      player?: PublicPlayer;
+      // A socket that already got the update some other way
+      exceptClientId?: string;
+    }
+  // How many spectators the sending instance holds for a game
+  | { type: "spectators"; instanceId: string; gameId: string; count: number }
+  // The host stopped allowing spectators
+  | { type: "dismiss_spectators"; gameId: string };
+
+type GameBusHandler = (event: GameBusEvent) => void;
+
+export interface GameBus {
+  publish(event: GameBusEvent): Promise<void>;
+  subscribe(handler: GameBusHandler): void;
+}
+
+// A single instance: events go straight to the handlers
+export class MemGameBus implements GameBus {
+  private handlers: GameBusHandler[] = [];
+
+  async publish(event: GameBusEvent) {
+    this.handlers.forEach((handler) => handler(event));
+  }
+
+  subscribe(handler: GameBusHandler) {
+    this.handlers.push(handler);
+  }
+}
+
+const CHANNEL = "menteur:game-bus";
+
+// The commands the bus sends on each of its connections, as an ioredis
+// connection has them
+export interface BusPublisher {
+  publish(channel: string, message: string): Promise<unknown>;
+}
+
+export interface BusSubscriber {
+  subscribe(channel: string): Promise<unknown>;
+  on(event: "message", listener: (channel: string, message: string) => void): unknown;
+}
+
+// Several instances sharing a Redis (or Redis-compatible) server. A
+// subscribed connection cannot send other commands, hence the second one.
+export class RedisGameBus implements GameBus {
+  private handlers: GameBusHandler[] = [];
+
+  constructor(private publisher: BusPublisher, private subscriber: BusSubscriber) {
+    this.subscriber.on("message", (channel: string, payload: string) => {
+      if (channel !== CHANNEL) {
+        return;
+      }
+      let event: GameBusEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        console.error("Malformed game bus event:", payload);
+        return;
+      }
+      this.handlers.forEach((handler) => handler(event));
+    });
+  }
+
+  async connect() {
+    await this.subscriber.subscribe(CHANNEL);
+  }
+
+  async publish(event: GameBusEvent) {
+    await this.publisher.publish(CHANNEL, JSON.stringify(event));
+  }
+
+  subscribe(handler: GameBusHandler) {
+    this.handlers.push(handler);
+  }
+}
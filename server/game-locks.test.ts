@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import RedisMock from "ioredis-mock";
+import { MemGameLocks, RedisGameLocks, type GameLocks } from "./game-locks";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+// Runs overlapping tasks on one game and records how many ran at once
+async function maxConcurrency(locks: GameLocks, tasks: number): Promise<{ max: number; order: number[] }> {
+  let running = 0;
+  let max = 0;
+  const order: number[] = [];
+  await Promise.all(Array.from({ length: tasks }, (_, index) => locks.run("game", async () => {
+    running += 1;
+    max = Math.max(max, running);
+    await tick();
+    order.push(index);
+    running -= 1;
+  })));
+  return { max, order };
+}
+
+// Instances pointed at the same Redis server share its keys
+function redisInstance(): RedisGameLocks {
+  return new RedisGameLocks(new RedisMock());
+}
+
+describe("MemGameLocks", () => {
+  it("runs the tasks of a game one at a time, in order", async () => {
+    const { max, order } = await maxConcurrency(new MemGameLocks(), 5);
+    expect(max).toBe(1);
+    expect(order).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("keeps going after a task fails", async () => {
+    const locks = new MemGameLocks();
+    const failed = locks.run("game", async () => {
+      throw new Error("boom");
+    });
+    const next = locks.run("game", async () => "ran");
+    await expect(failed).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("ran");
+  });
+
+  it("lets different games run side by side", async () => {
+    const locks = new MemGameLocks();
+    let running = 0;
+    let max = 0;
+    await Promise.all(["a", "b"].map((gameId) => locks.run(gameId, async () => {
+      running += 1;
+      max = Math.max(max, running);
+      await tick();
+      running -= 1;
+    })));
+    expect(max).toBe(2);
+  });
+});
+
+describe("RedisGameLocks", () => {
+  it("serializes the tasks of a game across instances", async () => {
+    await new RedisMock().flushall();
+    const instances = [redisInstance(), redisInstance(), redisInstance()];
+    let running = 0;
+    let max = 0;
+    await Promise.all(Array.from({ length: 9 }, (_, index) => instances[index % 3].run("game", async () => {
+      running += 1;
+      max = Math.max(max, running);
+      await tick();
+      running -= 1;
+    })));
+    expect(max).toBe(1);
+  });
+
+  it("releases the key once the task is done, even when it fails", async () => {
+    const redis = new RedisMock();
+    await redis.flushall();
+    const locks = new RedisGameLocks(redis);
+
+    await expect(locks.run("game", async () => {
+      expect(await redis.get("menteur:lock:game")).not.toBeNull();
+      throw new Error("boom");
+    })).rejects.toThrow("boom");
+    expect(await redis.get("menteur:lock:game")).toBeNull();
+  });
+
+  it("leaves a key taken over by another holder alone", async () => {
+    const redis = new RedisMock();
+    await redis.flushall();
+    const locks = new RedisGameLocks(redis);
+
+    await locks.run("game", async () => {
+      // The lock expired mid-task and someone else took it
+      await redis.set("menteur:lock:game", "someone-else");
+    });
+    expect(await redis.get("menteur:lock:game")).toBe("someone-else");
+  });
+});
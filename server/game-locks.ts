@@ -0,0 +1,77 @@
+import { randomUUID } from "crypto";
+
+export interface GameLocks {
+  run<T>(gameId: string, task: () => Promise<T>): Promise<T>;
+}
+
+// Serializes work on the same game inside this process, so two requests
+// racing on one state (say, two players calling "Menteur!" at once) are
+// applied one after the other and the second sees the first's result.
+export class MemGameLocks implements GameLocks {
+  private tails = new Map<string, Promise<unknown>>();
+
+  run<T>(gameId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(gameId) ?? Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.catch(() => undefined);
+    this.tails.set(gameId, tail);
+    tail.then(() => {
+      if (this.tails.get(gameId) === tail) {
+        this.tails.delete(gameId);
+      }
+    });
+    return result;
+  }
+}
+
+// A lock left behind by a crashed instance frees itself after this long;
+// applying an action takes milliseconds
+const LOCK_TTL_MS = 10 * 1000;
+const LOCK_RETRY_MS = 20;
+const LOCK_WAIT_MS = 15 * 1000;
+
+// Deletes the key only if this holder still owns it
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+// The commands the locks send, as an ioredis connection has them
+export interface LockConnection {
+  set(key: string, value: string, ttlUnit: "PX", ttl: number, mode: "NX"): Promise<"OK" | null>;
+  eval(script: string, keyCount: number, ...args: string[]): Promise<unknown>;
+}
+
+// The same, across every instance sharing the Redis server. Work is still
+// queued in process first, so only one task per game and instance ever
+// polls for the shared key.
+export class RedisGameLocks implements GameLocks {
+  private local = new MemGameLocks();
+
+  constructor(private redis: LockConnection) {}
+
+  run<T>(gameId: string, task: () => Promise<T>): Promise<T> {
+    return this.local.run(gameId, async () => {
+      const key = `menteur:lock:${gameId}`;
+      const token = randomUUID();
+      await this.acquire(key, token);
+      try {
+        return await task();
+      } finally {
+        await this.redis.eval(RELEASE_SCRIPT, 1, key, token);
+      }
+    });
+  }
+
+  private async acquire(key: string, token: string) {
+    const giveUpAt = Date.now() + LOCK_WAIT_MS;
+    while (await this.redis.set(key, token, "PX", LOCK_TTL_MS, "NX") !== "OK") {
+      if (Date.now() > giveUpAt) {
+        throw new Error(`Timed out waiting for ${key}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
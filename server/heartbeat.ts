@@ -0,0 +1,34 @@
+import type { WebSocket, WebSocketServer } from "ws";
+
+// How long a socket may go without answering a ping before it is dropped
+export const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.HEARTBEAT_TIMEOUT_SECONDS || "30", 10) * 1000;
+
+// Pings every socket once per timeout. A socket that has not answered the
+// previous ping by then is terminated, which goes through its usual close
+// handling: the seat is marked disconnected and the reconnect grace starts.
+export class Heartbeat {
+  private alive = new WeakSet<WebSocket>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private wss: WebSocketServer, private timeoutMs: number) {}
+
+  start() {
+    this.wss.on("connection", (ws) => {
+      this.alive.add(ws);
+      ws.on("pong", () => this.alive.add(ws));
+    });
+    this.wss.on("close", () => clearInterval(this.timer));
+    this.timer = setInterval(() => this.beat(), this.timeoutMs);
+  }
+
+  private beat() {
+    this.wss.clients.forEach((ws) => {
+      if (!this.alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      this.alive.delete(ws);
+      ws.ping();
+    });
+  }
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { MemStorage, type IStorage } from "./storage";
+import { MemGameBus, type GameBus } from "./game-bus";
+import { MemGameLocks, type GameLocks } from "./game-locks";
 
 const app = express();
 app.use(express.json());
@@ -36,8 +39,51 @@ app.use((req, res, next) => {
   next();
 });
 
+// Picks the storage backend: STORAGE_BACKEND=memory|postgres|pglite, defaulting
+// to postgres when DATABASE_URL is set. PGlite keeps its data in PGLITE_DATA_DIR
+// (in memory when unset), so the Postgres code path runs without any service.
+async function createStorage(): Promise<IStorage> {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL is required for the postgres storage backend");
+      }
+      const { connectPostgres } = await import("./db");
+      const { PgStorage } = await import("./pg-storage");
+      return new PgStorage(await connectPostgres(process.env.DATABASE_URL));
+    }
+    case "pglite": {
+      const { connectPglite } = await import("./db");
+      const { PgStorage } = await import("./pg-storage");
+      return new PgStorage(await connectPglite(process.env.PGLITE_DATA_DIR));
+    }
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
+
+// Picks how instances share broadcasts and game locks: through Redis when
+// REDIS_URL is set, in process otherwise. Several instances also need a
+// storage they all see, i.e. STORAGE_BACKEND=postgres.
+async function createCoordination(): Promise<{ bus: GameBus; locks: GameLocks }> {
+  if (!process.env.REDIS_URL) {
+    return { bus: new MemGameBus(), locks: new MemGameLocks() };
+  }
+  const { connectRedis } = await import("./redis");
+  return connectRedis(process.env.REDIS_URL);
+}
+
 (async () => {
-  const server = await registerRoutes(app);
+  const storage = await createStorage();
+  log(`using ${storage.constructor.name}`);
+  const { bus, locks } = await createCoordination();
+  log(`using ${bus.constructor.name}`);
+
+  const server = await registerRoutes(app, storage, bus, locks);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { GameState } from "@shared/schema";
+import { deriveSeed, type GameAction } from "@shared/engine";
+import { apply, createAction, newGame } from "@shared/engine/test-helpers";
+import { connectPglite } from "./db";
+import { PgStorage } from "./pg-storage";
+
+// Wider than 32 bits, as every seed now is
+const SEED = 2 ** 40 + 12345;
+
+// A started menteur game where alice has played and bob has called her out,
+// so hands, every pile and the event log are filled in
+function playedGame(gameId: string): GameState[] {
+  const states = [newGame(createAction({ gameId, playerName: "Alice", seed: SEED }))];
+  const step = (action: GameAction) => states.push(apply(states[states.length - 1], action));
+  step({ type: "join", playerId: "bob", playerName: "Bob", at: 0 });
+  step({ type: "set_ready", playerId: "alice", ready: true, at: 0 });
+  step({ type: "set_ready", playerId: "bob", ready: true, at: 0 });
+  step({ type: "start", playerId: "alice", at: 0 });
+  const card = states[states.length - 1].players[0].cards[0];
+  step({
+    type: "play_cards",
+    playerId: "alice",
+    cardIds: [card.id],
+    claim: { rank: "rank" in card ? card.rank : "A", count: 1 },
+    at: 1000,
+  });
+  step({ type: "accuse", playerId: "bob", targetId: "alice", at: 2000 });
+  return states;
+}
+
+// Each test starts PGlite and runs the migrations
+describe("PgStorage", { timeout: 30_000 }, () => {
+  let storage: PgStorage;
+
+  beforeEach(async () => {
+    storage = new PgStorage(await connectPglite());
+  }, 30_000);
+
+  it("reads back every saved state of a game", async () => {
+    const [first, ...rest] = playedGame(await storage.generateGameId());
+    await storage.createGame(first);
+    expect(await storage.getGame(first.id)).toEqual(first);
+
+    for (const state of rest) {
+      await storage.updateGame(state);
+      expect(await storage.getGame(state.id)).toEqual(state);
+    }
+    expect((await storage.getGame(first.id))?.revealedCards).toHaveLength(1);
+    expect(await storage.getAllGames()).toHaveLength(1);
+    const last = rest[rest.length - 1];
+    expect(await storage.getActiveGameStamps()).toEqual([{ id: last.id, version: last.version, updatedAt: expect.any(Number) }]);
+    expect(await storage.getGame("missing")).toBeUndefined();
+  });
+
+  it("hands out sessions bound to one seat", async () => {
+    const [game] = playedGame(await storage.generateGameId());
+    await storage.createGame(game);
+
+    const session = await storage.createPlayerSession(game.id, "alice");
+    expect(await storage.getPlayerSession(session.token)).toEqual({ token: session.token, gameId: game.id, playerId: "alice" });
+    expect(await storage.getPlayerSession("unknown")).toBeUndefined();
+  });
+
+  it("numbers the action log in order and keeps wide seeds", async () => {
+    const [game] = playedGame(await storage.generateGameId());
+    await storage.createGame(game);
+
+    const actions: GameAction[] = [
+      { type: "join", playerId: "bob", playerName: "Bob", at: 0 },
+      { type: "set_ready", playerId: "bob", ready: true, at: 0 },
+    ];
+    for (const [index, action] of actions.entries()) {
+      const record = await storage.appendAction(game.id, { seed: deriveSeed(SEED, index), action });
+      expect(record.seq).toBe(index);
+    }
+
+    expect(await storage.getActions(game.id)).toEqual(actions.map((action, index) => ({
+      seq: index,
+      seed: deriveSeed(SEED, index),
+      action,
+    })));
+    expect(await storage.getActions("missing")).toEqual([]);
+  });
+
+  it("saves a state together with the action that produced it", async () => {
+    const [first, second] = playedGame(await storage.generateGameId());
+    await storage.recordAction(first, { seed: deriveSeed(SEED, 0), action: createAction({ gameId: first.id, playerName: "Alice", seed: SEED }) });
+    const join: GameAction = { type: "join", playerId: "bob", playerName: "Bob", at: 0 };
+    await storage.recordAction(second, { seed: deriveSeed(SEED, first.version), action: join });
+
+    expect(await storage.getGame(first.id)).toEqual(second);
+    expect((await storage.getActions(first.id)).map(record => record.seq)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,237 @@
+import { asc, count, eq, ne, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import {
+  users,
+  games,
+  gameSeats,
+  gameHands,
+  gamePiles,
+  gameEvents,
+  gameActions,
+  playerSessions,
+  type User,
+  type InsertUser,
+  type GameState,
+  type Card,
+  type GamePileKind
+} from "@shared/schema";
+import { randomBytes, randomUUID } from "crypto";
+import type { ActionRecord } from "@shared/engine";
+import type { ActiveGameStamp, IStorage, PlayerSession } from "./storage";
+
+// Any Drizzle Postgres driver: Neon in production, PGlite locally
+export type Database = PgDatabase<PgQueryResultHKT>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+export class PgStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values({ ...insertUser, id: randomUUID() }).returning();
+    return user;
+  }
+
+  async generateGameId(): Promise<string> {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    for (;;) {
+      let result = '';
+      for (let i = 0; i < 6; i++) {
+        result += chars.charAt(Math.floor(Math.random() * chars.length));
+      }
+      const [existing] = await this.db.select({ id: games.id }).from(games).where(eq(games.id, result));
+      if (!existing) {
+        return result;
+      }
+    }
+  }
+
+  async createGame(gameState: GameState): Promise<GameState> {
+    await this.db.transaction((tx) => this.saveGame(tx, gameState));
+    return gameState;
+  }
+
+  async getGame(id: string): Promise<GameState | undefined> {
+    return this.loadGame(id);
+  }
+
+  async updateGame(gameState: GameState): Promise<GameState> {
+    await this.db.transaction((tx) => this.saveGame(tx, gameState));
+    return gameState;
+  }
+
+  async getAllGames(): Promise<GameState[]> {
+    const rows = await this.db.select({ id: games.id }).from(games);
+    const loaded = await Promise.all(rows.map((row) => this.loadGame(row.id)));
+    return loaded.filter((game): game is GameState => !!game);
+  }
+
+  async getActiveGameStamps(): Promise<ActiveGameStamp[]> {
+    return this.db.select({
+      id: games.id,
+      version: sql<number>`(${games.state}->>'version')::integer`,
+      updatedAt: games.updatedAt,
+    }).from(games).where(ne(games.phase, "finished"));
+  }
+
+  async appendAction(gameId: string, record: Omit<ActionRecord, "seq">): Promise<ActionRecord> {
+    return this.db.transaction((tx) => this.insertAction(tx, gameId, record));
+  }
+
+  async recordAction(gameState: GameState, record: Omit<ActionRecord, "seq">): Promise<GameState> {
+    await this.db.transaction(async (tx) => {
+      // The game row first: log rows reference it
+      await this.saveGame(tx, gameState);
+      await this.insertAction(tx, gameState.id, record);
+    });
+    return gameState;
+  }
+
+  async getActions(gameId: string): Promise<ActionRecord[]> {
+    const rows = await this.db.select().from(gameActions).where(eq(gameActions.gameId, gameId)).orderBy(asc(gameActions.seq));
+    return rows.map(({ seq, seed, action }) => ({ seq, seed, action }));
+  }
+
+  async createPlayerSession(gameId: string, playerId: string): Promise<PlayerSession> {
+    const session: PlayerSession = {
+      token: randomBytes(32).toString("base64url"),
+      gameId,
+      playerId,
+    };
+    await this.db.insert(playerSessions).values(session);
+    return session;
+  }
+
+  async getPlayerSession(token: string): Promise<PlayerSession | undefined> {
+    const [session] = await this.db.select().from(playerSessions).where(eq(playerSessions.token, token));
+    return session;
+  }
+
+  private async insertAction(tx: Transaction, gameId: string, record: Omit<ActionRecord, "seq">): Promise<ActionRecord> {
+    const [{ stored }] = await tx.select({ stored: count() }).from(gameActions).where(eq(gameActions.gameId, gameId));
+    const entry: ActionRecord = { ...record, seq: stored };
+    await tx.insert(gameActions).values({ gameId, ...entry });
+    return entry;
+  }
+
+  // Seats, hands and piles are rewritten on every save; the event log is
+  // append-only, so only entries past the stored count are inserted.
+  private async saveGame(tx: Transaction, game: GameState) {
+    const {
+      id,
+      variant,
+      phase,
+      currentPlayerId,
+      players,
+      drawPile,
+      centerPile,
+      lastPlayedCards,
+      revealedCards,
+      events,
+      ...table
+    } = game;
+
+    const row = { id, variant, phase, currentPlayerId, state: table, updatedAt: Date.now() };
+    await tx.insert(games).values(row).onConflictDoUpdate({ target: games.id, set: row });
+
+    await tx.delete(gameSeats).where(eq(gameSeats.gameId, id));
+    await tx.delete(gameHands).where(eq(gameHands.gameId, id));
+    await tx.delete(gamePiles).where(eq(gamePiles.gameId, id));
+
+    if (players.length > 0) {
+      await tx.insert(gameSeats).values(players.map(({ id: playerId, name, cards, ...player }, position) => ({
+        gameId: id,
+        playerId,
+        position,
+        name,
+        player,
+      })));
+    }
+
+    const hands = players.flatMap((player) => player.cards.map((card, position) => ({
+      gameId: id,
+      playerId: player.id,
+      position,
+      cardId: card.id,
+      card,
+    })));
+    if (hands.length > 0) {
+      await tx.insert(gameHands).values(hands);
+    }
+
+    const piles: Record<GamePileKind, Card[]> = {
+      draw: drawPile,
+      center: centerPile,
+      last_played: lastPlayedCards,
+      revealed: revealedCards,
+    };
+    const pileRows = Object.entries(piles).flatMap(([pile, cards]) => cards.map((card, position) => ({
+      gameId: id,
+      pile: pile as GamePileKind,
+      position,
+      cardId: card.id,
+      card,
+    })));
+    if (pileRows.length > 0) {
+      await tx.insert(gamePiles).values(pileRows);
+    }
+
+    const [{ stored }] = await tx.select({ stored: count() }).from(gameEvents).where(eq(gameEvents.gameId, id));
+    const newEvents = events.slice(stored);
+    if (newEvents.length > 0) {
+      await tx.insert(gameEvents).values(newEvents.map((event, index) => ({
+        gameId: id,
+        seq: stored + index,
+        event,
+      })));
+    }
+  }
+
+  private async loadGame(id: string): Promise<GameState | undefined> {
+    const [row] = await this.db.select().from(games).where(eq(games.id, id));
+    if (!row) {
+      return undefined;
+    }
+
+    const [seats, hands, piles, events] = await Promise.all([
+      this.db.select().from(gameSeats).where(eq(gameSeats.gameId, id)).orderBy(asc(gameSeats.position)),
+      this.db.select().from(gameHands).where(eq(gameHands.gameId, id)).orderBy(asc(gameHands.position)),
+      this.db.select().from(gamePiles).where(eq(gamePiles.gameId, id)).orderBy(asc(gamePiles.position)),
+      this.db.select().from(gameEvents).where(eq(gameEvents.gameId, id)).orderBy(asc(gameEvents.seq)),
+    ]);
+
+    const pile = (kind: GamePileKind) => piles.filter((p) => p.pile === kind).map((p) => p.card);
+
+    return {
+      ...row.state,
+      id: row.id,
+      variant: row.variant,
+      phase: row.phase,
+      currentPlayerId: row.currentPlayerId,
+      players: seats.map((seat) => {
+        const cards = hands.filter((h) => h.playerId === seat.playerId).map((h) => h.card);
+        return {
+          ...seat.player,
+          id: seat.playerId,
+          name: seat.name,
+          cards,
+          cardCount: cards.length,
+        };
+      }),
+      drawPile: pile("draw"),
+      centerPile: pile("center"),
+      lastPlayedCards: pile("last_played"),
+      revealedCards: pile("revealed"),
+      events: events.map((e) => e.event),
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import type { GameState, PlayerView, PublicPlayer } from "@shared/schema";
+
+export function toPublicPlayer({ cards, ...player }: GameState["players"][number]): PublicPlayer {
+  return player;
+}
+
+// Builds what a single seat is allowed to see: its own hand, card counts for
+// everyone else, and the played cards only once they have been revealed.
+export function projectGameForPlayer(game: GameState, viewerId?: string): PlayerView {
+  const viewer = viewerId ? game.players.find(p => p.id === viewerId) : undefined;
+
+  return {
+    id: game.id,
+    version: game.version,
+    variant: game.variant,
+    viewerId: viewer?.id,
+    phase: game.phase,
+    hostId: game.hostId,
+    settings: game.settings,
+    seed: game.phase === "finished" ? game.seed : undefined,
+    players: game.players.map(toPublicPlayer),
+    hand: viewer ? viewer.cards : [],
+    currentPlayerId: game.currentPlayerId,
+    drawPileCount: game.drawPile.length,
+    centerPileCount: game.centerPile.length,
+    requiredRank: game.requiredRank,
+    lastClaim: game.lastClaim,
+    lastPlayerId: game.lastPlayerId,
+    accusingPlayerId: game.accusingPlayerId,
+    revealedCards: game.phase === "revelation" ? game.revealedCards : [],
+    events: game.events,
+    turnDeadline: game.turnDeadline,
+    challengeDeadline: game.challengeDeadline,
+    revelationDeadline: game.revelationDeadline,
+    revelationAcks: game.revelationAcks,
+    match: game.match,
+    serverTime: Date.now(),
+  };
+}
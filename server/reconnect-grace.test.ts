@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ReconnectGrace } from "./reconnect-grace";
+
+describe("ReconnectGrace", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 100_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resumes a window from when the seat dropped", () => {
+    const expired = vi.fn();
+    const grace = new ReconnectGrace(60_000, expired);
+    grace.resume("game", "bob", 100_000 - 45_000);
+
+    vi.advanceTimersByTime(14_999);
+    expect(expired).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(expired).toHaveBeenCalledWith("game", "bob");
+  });
+
+  it("keeps a window it is already counting down", () => {
+    const expired = vi.fn();
+    const grace = new ReconnectGrace(60_000, expired);
+    grace.start("game", "bob");
+    grace.resume("game", "bob", 0);
+
+    vi.advanceTimersByTime(59_999);
+    expect(expired).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  it("frees a seat whose window ran out while nobody counted", () => {
+    const expired = vi.fn();
+    const grace = new ReconnectGrace(60_000, expired);
+    grace.resume("game", "bob", 0);
+
+    vi.advanceTimersByTime(0);
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+});
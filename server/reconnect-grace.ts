@@ -0,0 +1,44 @@
+type ExpireHandler = (gameId: string, playerId: string) => void;
+
+// How long a disconnected player keeps their seat before being removed
+export const RECONNECT_GRACE_MS = parseInt(process.env.RECONNECT_GRACE_SECONDS || "60", 10) * 1000;
+
+// Pending seat removals for players whose last socket closed. Re-attaching
+// with `join_game` before the window ends cancels the removal.
+export class ReconnectGrace {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private graceMs: number, private onExpire: ExpireHandler) {}
+
+  start(gameId: string, playerId: string, delay = this.graceMs) {
+    this.cancel(gameId, playerId);
+
+    const key = `${gameId}:${playerId}`;
+    this.timers.set(key, setTimeout(() => {
+      this.timers.delete(key);
+      this.onExpire(gameId, playerId);
+    }, delay));
+  }
+
+  // Takes over the window of a seat that dropped at `since`, unless this
+  // process is already counting it down
+  resume(gameId: string, playerId: string, since: number) {
+    if (!this.timers.has(`${gameId}:${playerId}`)) {
+      this.start(gameId, playerId, Math.max(0, since + this.graceMs - Date.now()));
+    }
+  }
+
+  // Whether any seat of the game is being counted down here
+  has(gameId: string): boolean {
+    return Array.from(this.timers.keys()).some(key => key.startsWith(`${gameId}:`));
+  }
+
+  cancel(gameId: string, playerId: string) {
+    const key = `${gameId}:${playerId}`;
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(key);
+    }
+  }
+}
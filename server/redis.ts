@@ -0,0 +1,12 @@
+import { RedisGameBus, type GameBus } from "./game-bus";
+import { RedisGameLocks, type GameLocks } from "./game-locks";
+
+// Broadcasts and game locks shared by every instance pointed at the same
+// Redis (or Redis-compatible) server
+export async function connectRedis(url: string): Promise<{ bus: GameBus; locks: GameLocks }> {
+  const { Redis } = await import("ioredis");
+  const publisher = new Redis(url);
+  const bus = new RedisGameBus(publisher, new Redis(url));
+  await bus.connect();
+  return { bus, locks: new RedisGameLocks(publisher) };
+}
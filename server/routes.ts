@@ -1,46 +1,224 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { 
-  CreateGameRequest, 
-  JoinGameRequest, 
-  PlayCardRequest, 
+import type { IStorage } from "./storage";
+import { projectGameForPlayer, toPublicPlayer } from "./projection";
+import { requirePlayerSession as sessionMiddleware, getSession } from "./auth";
+import { TurnTimers } from "./turn-timer";
+import { BotRunner } from "./bot-runner";
+import type { GameLocks } from "./game-locks";
+import type { GameBus, GameBusEvent } from "./game-bus";
+import { ReconnectGrace, RECONNECT_GRACE_MS } from "./reconnect-grace";
+import { Heartbeat, HEARTBEAT_TIMEOUT_MS } from "./heartbeat";
+import {
+  CreateGameRequest,
+  JoinGameRequest,
+  ReadyRequest,
+  UpdateSettingsRequest,
+  AddBotRequest,
+  PlayCardRequest,
   AccusePlayerRequest,
-  type WebSocketMessage,
+  ClientMessage,
+  ReportedPresence,
+  type GameCommand,
+  type ServerMessage,
+  type GameViewMessage,
+  type GameViewData,
   type GameState,
-  type Player,
-  type GameEvent
+  type PlayerView,
+  type PublicPlayer
 } from "@shared/schema";
+import {
+  applyAction,
+  createGame,
+  createRng,
+  deriveSeed,
+  finishedRecords,
+  isConnected,
+  randomSeed,
+  RuleError,
+  type RuleErrorCode,
+  type CreateAction,
+  type GameAction
+} from "@shared/engine";
+import { nameBot } from "@shared/bots";
+import { diffViews } from "@shared/view-patch";
 import { randomUUID } from "crypto";
 
 interface ClientConnection {
   ws: WebSocket;
   gameId?: string;
   playerId?: string;
+  // Watching without a seat
+  spectator?: boolean;
+  // Last view sent, which the next update is a patch on
+  lastView?: PlayerView;
+  // What the client last reported about its player's activity
+  presence?: ReportedPresence;
 }
 
 const clients = new Map<string, ClientConnection>();
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  
+// Tells this process apart from the other instances on the game bus
+const instanceId = randomUUID();
+// Spectators the other instances hold, by game then instance
+const remoteSpectators = new Map<string, Map<string, number>>();
+
+// How often every instance looks for unfinished games nobody is serving, and
+// how long a game must have gone unsaved to count as such
+const GAME_RECOVERY_MS = 30 * 1000;
+// The version of each game this instance last re-armed from storage
+const recoveredVersions = new Map<string, number>();
+
+// Rule violations are 400s unless a more specific status fits
+const RULE_ERROR_STATUS: Partial<Record<RuleErrorCode, number>> = {
+  player_not_found: 404,
+  not_host: 403,
+  not_seated: 403,
+};
+
+function sendRuleError(res: Response, error: RuleError) {
+  const status = RULE_ERROR_STATUS[error.code] ?? 400;
+  return res.status(status).json({ message: error.message, code: error.code });
+}
+
+function sendMessage(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+// The broadcast each socket command triggers, as for its REST endpoint
+const COMMAND_BROADCAST: Record<GameCommand["type"], "game_state" | "card_played" | "accusation" | "revelation"> = {
+  play_card: "card_played",
+  accuse: "accusation",
+  continue: "revelation",
+  ready: "game_state",
+};
+
+function commandAction(command: GameCommand, playerId: string, at: number): GameAction {
+  switch (command.type) {
+    case "play_card":
+      return { type: "play_cards", playerId, cardIds: command.cardIds, claim: command.claim, at };
+    case "accuse":
+      return { type: "accuse", playerId, targetId: command.targetId, at };
+    case "continue":
+      return { type: "continue", playerId, at };
+    case "ready":
+      return { type: "set_ready", playerId, ready: command.ready, at };
+  }
+}
+
+// The message a view event on the bus stands for, for one client
+function viewMessage(type: GameViewMessage["type"], player?: PublicPlayer): (data: GameViewData) => GameViewMessage {
+  if (type === "player_joined") {
+    return (data) => ({ type, data: { ...data, player: player! } });
+  }
+  return (data) => ({ type, data });
+}
+
+// Undefined for anything that is not JSON or not a known client message
+function parseClientMessage(raw: string): ClientMessage | undefined {
+  try {
+    const result = ClientMessage.safeParse(JSON.parse(raw));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function registerRoutes(app: Express, storage: IStorage, bus: GameBus, gameLocks: GameLocks): Promise<Server> {
+
+  const requirePlayerSession = sessionMiddleware(storage);
+
+  // Broadcasts go through the bus, so every instance reaches the sockets it
+  // holds, whichever instance applied the action
+  bus.subscribe((event) => {
+    deliverBusEvent(event).catch((error) => {
+      console.error('Game bus delivery error:', error);
+    });
+  });
+
+  const turnTimers = new TurnTimers(async (gameId, action) => {
+    try {
+      const updatedGame = await dispatchAction(gameId, action);
+      if (!updatedGame || updatedGame instanceof RuleError) {
+        return;
+      }
+
+      broadcastGameView(updatedGame, "game_state");
+    } catch (error) {
+      console.error('Game clock error:', error);
+    }
+  });
+
+  // Bot moves go through dispatchAction like any player's
+  const botRunner = new BotRunner(async (gameId, action) => {
+    try {
+      const updatedGame = await dispatchAction(gameId, action);
+      if (!updatedGame || updatedGame instanceof RuleError) {
+        return;
+      }
+
+      broadcastGameView(updatedGame, "game_state");
+    } catch (error) {
+      console.error('Bot move error:', error);
+    }
+  });
+
+  // Seats of players who lost their connection are only freed after a grace window
+  const reconnectGrace = new ReconnectGrace(RECONNECT_GRACE_MS, async (gameId, playerId) => {
+    try {
+      const game = await storage.getGame(gameId);
+      const player = game?.players.find(p => p.id === playerId);
+      if (!game || !player || isConnected(player)) {
+        return;
+      }
+
+      const updatedGame = await dispatchAction(gameId, { type: "leave", playerId, at: Date.now() });
+      if (!updatedGame || updatedGame instanceof RuleError) {
+        return;
+      }
+
+      broadcastGameView(updatedGame, "game_state");
+      broadcastToGame(gameId, {
+        type: "player_left",
+        data: { playerId }
+      });
+    } catch (error) {
+      console.error('Error removing player:', error);
+    }
+  });
+
   // Create game room
   app.post("/api/games", async (req, res) => {
     try {
       const request = CreateGameRequest.parse(req.body);
-      
-      const player: Player = {
-        id: randomUUID(),
-        name: request.playerName,
-        cardCount: 0,
-        cards: [],
-        avatar: request.playerName.charAt(0).toUpperCase(),
-        isOnline: true
+      if (request.seed !== undefined && process.env.NODE_ENV !== "development") {
+        return res.status(400).json({ message: "Fixed seeds are only available in development" });
+      }
+      const playerId = randomUUID();
+
+      const action: CreateAction = {
+        type: "create",
+        gameId: await storage.generateGameId(),
+        variant: request.variant,
+        playerId,
+        playerName: request.playerName,
+        settings: request.settings,
+        seed: request.seed ?? randomSeed(),
+        at: Date.now(),
       };
+      const seed = deriveSeed(action.seed, 0);
+      const created = createGame(action, createRng(seed));
+      if (created instanceof RuleError) {
+        return sendRuleError(res, created);
+      }
 
-      const game = await storage.createGame(player);
-      
-      res.json({ game, playerId: player.id });
+      const game = await storage.recordAction(created.state, { seed, action });
+      const session = await storage.createPlayerSession(game.id, playerId);
+
+      res.json({ game: projectGameForPlayer(game, playerId), playerId, playerToken: session.token });
     } catch (error) {
       res.status(400).json({ message: error instanceof Error ? error.message : "Invalid request" });
     }
@@ -50,210 +228,324 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/games/join", async (req, res) => {
     try {
       const request = JoinGameRequest.parse(req.body);
-      
-      const game = await storage.getGame(request.gameId);
-      if (!game) {
+
+      const playerId = randomUUID();
+      const updatedGame = await dispatchAction(request.gameId, {
+        type: "join",
+        playerId,
+        playerName: request.playerName,
+        at: Date.now(),
+      });
+      if (!updatedGame) {
         return res.status(404).json({ message: "Game not found" });
       }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
 
-      const player: Player = {
-        id: randomUUID(),
-        name: request.playerName,
-        cardCount: 0,
-        cards: [],
-        avatar: request.playerName.charAt(0).toUpperCase(),
-        isOnline: true
-      };
+      const session = await storage.createPlayerSession(updatedGame.id, playerId);
+      const newPlayer = updatedGame.players.find(p => p.id === playerId)!;
 
-      const updatedGame = await storage.addPlayerToGame(request.gameId, player);
-      
       // Broadcast to all clients in the game
-      broadcastToGame(request.gameId, {
-        type: "player_joined",
-        data: { game: updatedGame, newPlayer: player }
-      });
+      broadcastGameView(updatedGame, "player_joined", { player: toPublicPlayer(newPlayer) });
 
-      res.json({ game: updatedGame, playerId: player.id });
+      res.json({ game: projectGameForPlayer(updatedGame, playerId), playerId, playerToken: session.token });
     } catch (error) {
       res.status(400).json({ message: error instanceof Error ? error.message : "Could not join game" });
     }
   });
 
-  // Get game state
-  app.get("/api/games/:gameId", async (req, res) => {
+  // Get game state, as seen by the requesting player
+  app.get("/api/games/:gameId", requirePlayerSession, async (req, res) => {
     try {
       const game = await storage.getGame(req.params.gameId);
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
-      res.json(game);
+      res.json(projectGameForPlayer(game, getSession(res).playerId));
     } catch (error) {
       res.status(500).json({ message: "Failed to get game" });
     }
   });
 
-  // Play card
-  app.post("/api/games/:gameId/play", async (req, res) => {
+  // Toggle ready in the waiting room
+  app.post("/api/games/:gameId/ready", requirePlayerSession, async (req, res) => {
     try {
-      const request = PlayCardRequest.parse({
-        ...req.body,
-        gameId: req.params.gameId
+      const request = ReadyRequest.parse(req.body);
+
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, {
+        type: "set_ready",
+        playerId,
+        ready: request.ready,
+        at: Date.now(),
+      });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
+
+      broadcastGameView(updatedGame, "game_state");
+
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Could not update ready state" });
+    }
+  });
+
+  // Change the house rules from the waiting room (host only)
+  app.post("/api/games/:gameId/settings", requirePlayerSession, async (req, res) => {
+    try {
+      const request = UpdateSettingsRequest.parse(req.body);
+
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, {
+        type: "update_settings",
+        playerId,
+        settings: request.settings,
+        at: Date.now(),
       });
-      
-      const game = await storage.getGame(request.gameId);
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
+
+      if (!updatedGame.settings.allowSpectators) {
+        dismissSpectators(updatedGame.id);
+      }
+      broadcastGameView(updatedGame, "game_state");
+
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid settings" });
+    }
+  });
+
+  // Seat a bot from the waiting room (host only)
+  app.post("/api/games/:gameId/bots", requirePlayerSession, async (req, res) => {
+    try {
+      const request = AddBotRequest.parse(req.body);
+
+      const playerId = getSession(res).playerId;
+      const game = await storage.getGame(req.params.gameId);
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      const player = game.players.find(p => p.id === request.playerId);
-      if (!player) {
-        return res.status(404).json({ message: "Player not found" });
+      const updatedGame = await dispatchAction(game.id, {
+        type: "add_bot",
+        playerId,
+        botId: randomUUID(),
+        botName: nameBot(request.strategy, game.players.map(p => p.name)),
+        strategy: request.strategy,
+        at: Date.now(),
+      });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
       }
 
-      if (game.currentPlayerId !== request.playerId) {
-        return res.status(400).json({ message: "Not your turn" });
+      broadcastGameView(updatedGame, "game_state");
+
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Could not add bot" });
+    }
+  });
+
+  app.delete("/api/games/:gameId/bots/:botId", requirePlayerSession, async (req, res) => {
+    try {
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, {
+        type: "remove_bot",
+        playerId,
+        botId: req.params.botId,
+        at: Date.now(),
+      });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
+
+      broadcastGameView(updatedGame, "game_state");
+
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(500).json({ message: "Could not remove bot" });
+    }
+  });
+
+  // Start the game (host only)
+  app.post("/api/games/:gameId/start", requirePlayerSession, async (req, res) => {
+    try {
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, { type: "start", playerId, at: Date.now() });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
+
+      broadcastGameView(updatedGame, "game_state");
+
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(500).json({ message: "Could not start game" });
+    }
+  });
+
+  // Deal the next round of a match (host only)
+  app.post("/api/games/:gameId/next-round", requirePlayerSession, async (req, res) => {
+    try {
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, { type: "next_round", playerId, at: Date.now() });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
       }
 
-      const cardIndex = player.cards.findIndex(c => c.id === request.cardId);
-      if (cardIndex === -1) {
-        return res.status(400).json({ message: "Card not found" });
+      broadcastGameView(updatedGame, "game_state");
+
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(500).json({ message: "Could not start next round" });
+    }
+  });
+
+  // Back to the waiting room after a finished match (host only)
+  app.post("/api/games/:gameId/rematch", requirePlayerSession, async (req, res) => {
+    try {
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, { type: "rematch", playerId, seed: randomSeed(), at: Date.now() });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
       }
 
-      const playedCard = player.cards.splice(cardIndex, 1)[0];
-      player.cardCount = player.cards.length;
-      
-      game.centerPile.push(playedCard);
-      game.lastPlayedCard = playedCard;
-      game.lastPlayerId = request.playerId;
+      broadcastGameView(updatedGame, "game_state");
 
-      // Check win condition
-      if (player.cards.length === 0) {
-        game.phase = "finished";
-        const event: GameEvent = {
-          id: randomUUID(),
-          type: "card_played",
-          playerId: player.id,
-          playerName: player.name,
-          timestamp: Date.now(),
-          message: `${player.name} a gagné la partie !`
-        };
-        game.events.push(event);
-      } else {
-        // Move to next player
-        const currentIndex = game.players.findIndex(p => p.id === request.playerId);
-        const nextIndex = (currentIndex + 1) % game.players.length;
-        game.currentPlayerId = game.players[nextIndex].id;
+      res.json(projectGameForPlayer(updatedGame, playerId));
+    } catch (error) {
+      res.status(500).json({ message: "Could not start rematch" });
+    }
+  });
 
-        const event: GameEvent = {
-          id: randomUUID(),
-          type: "card_played",
-          playerId: player.id,
-          playerName: player.name,
-          timestamp: Date.now(),
-          message: `${player.name} a joué une carte`
-        };
-        game.events.push(event);
+  // Action log of the finished matches of a game, to be folded by the client
+  app.get("/api/games/:gameId/replay", async (req, res) => {
+    try {
+      const game = await storage.getGame(req.params.gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
       }
+      // The log holds every hand, so the match being played stays private;
+      // the ones before its rematch can still be replayed
+      const actions = finishedRecords(await storage.getActions(game.id), game.phase);
+      if (!actions) {
+        return res.status(403).json({ message: "Replay is only available once the game is finished" });
+      }
+      res.json({ gameId: game.id, actions });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get replay" });
+    }
+  });
+
+  // Play cards
+  app.post("/api/games/:gameId/play", requirePlayerSession, async (req, res) => {
+    try {
+      const request = PlayCardRequest.parse({
+        ...req.body,
+        gameId: req.params.gameId
+      });
 
-      const updatedGame = await storage.updateGame(game);
+      if (request.playerId !== getSession(res).playerId) {
+        return res.status(403).json({ message: "Player token does not match playerId" });
+      }
 
-      // Broadcast to all clients
-      broadcastToGame(request.gameId, {
-        type: "card_played",
-        data: updatedGame
+      const updatedGame = await dispatchAction(request.gameId, {
+        type: "play_cards",
+        playerId: request.playerId,
+        cardIds: request.cardIds,
+        claim: request.claim,
+        at: Date.now(),
       });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
 
-      res.json(updatedGame);
+      // Broadcast to all clients
+      broadcastGameView(updatedGame, "card_played");
+
+      res.json(projectGameForPlayer(updatedGame, request.playerId));
     } catch (error) {
       res.status(400).json({ message: error instanceof Error ? error.message : "Could not play card" });
     }
   });
 
   // Accuse player
-  app.post("/api/games/:gameId/accuse", async (req, res) => {
+  app.post("/api/games/:gameId/accuse", requirePlayerSession, async (req, res) => {
     try {
       const request = AccusePlayerRequest.parse({
         ...req.body,
         gameId: req.params.gameId
       });
-      
-      const game = await storage.getGame(request.gameId);
-      if (!game) {
-        return res.status(404).json({ message: "Game not found" });
-      }
 
-      if (!game.lastPlayedCard || !game.lastPlayerId) {
-        return res.status(400).json({ message: "No card to accuse" });
-      }
-
-      const accusingPlayer = game.players.find(p => p.id === request.accusingPlayerId);
-      const accusedPlayer = game.players.find(p => p.id === request.accusedPlayerId);
-      
-      if (!accusingPlayer || !accusedPlayer) {
-        return res.status(404).json({ message: "Player not found" });
-      }
-
-      game.phase = "revelation";
-      game.revealedCard = game.lastPlayedCard;
-      game.accusingPlayerId = request.accusingPlayerId;
-
-      // Determine penalty
-      const wasLie = game.lastPlayedCard.type === "lie";
-      const penaltyPlayer = wasLie ? accusedPlayer : accusingPlayer;
-      
-      // Add 3 penalty cards
-      const deck = createPenaltyCards();
-      const penaltyCards = deck.splice(0, 3);
-      penaltyPlayer.cards.push(...penaltyCards);
-      penaltyPlayer.cardCount = penaltyPlayer.cards.length;
-
-      const event: GameEvent = {
-        id: randomUUID(),
-        type: "accusation",
-        playerId: accusingPlayer.id,
-        playerName: accusingPlayer.name,
-        targetId: accusedPlayer.id,
-        targetName: accusedPlayer.name,
-        cardType: game.lastPlayedCard.type,
-        timestamp: Date.now(),
-        message: `${accusingPlayer.name} a accusé ${accusedPlayer.name} - ${wasLie ? 'Mensonge révélé!' : 'Vérité révélée!'}`
-      };
-      game.events.push(event);
+      if (request.accusingPlayerId !== getSession(res).playerId) {
+        return res.status(403).json({ message: "Player token does not match accusingPlayerId" });
+      }
 
-      const updatedGame = await storage.updateGame(game);
+      const updatedGame = await dispatchAction(request.gameId, {
+        type: "accuse",
+        playerId: request.accusingPlayerId,
+        targetId: request.accusedPlayerId,
+        at: Date.now(),
+      });
+      if (!updatedGame) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
 
       // Broadcast revelation
-      broadcastToGame(request.gameId, {
-        type: "accusation",
-        data: updatedGame
-      });
+      broadcastGameView(updatedGame, "accusation");
 
-      res.json(updatedGame);
+      res.json(projectGameForPlayer(updatedGame, request.accusingPlayerId));
     } catch (error) {
       res.status(400).json({ message: error instanceof Error ? error.message : "Could not accuse player" });
     }
   });
 
-  // Continue game after revelation
-  app.post("/api/games/:gameId/continue", async (req, res) => {
+  // Acknowledge a revelation; the game continues once everyone has
+  app.post("/api/games/:gameId/continue", requirePlayerSession, async (req, res) => {
     try {
-      const game = await storage.getGame(req.params.gameId);
-      if (!game) {
+      const playerId = getSession(res).playerId;
+      const updatedGame = await dispatchAction(req.params.gameId, { type: "continue", playerId, at: Date.now() });
+      if (!updatedGame) {
         return res.status(404).json({ message: "Game not found" });
       }
+      if (updatedGame instanceof RuleError) {
+        return sendRuleError(res, updatedGame);
+      }
 
-      game.phase = "playing";
-      game.revealedCard = undefined;
-      game.accusingPlayerId = undefined;
-
-      const updatedGame = await storage.updateGame(game);
-
-      broadcastToGame(req.params.gameId, {
-        type: "revelation",
-        data: updatedGame
-      });
+      broadcastGameView(updatedGame, "revelation");
 
-      res.json(updatedGame);
+      res.json(projectGameForPlayer(updatedGame, playerId));
     } catch (error) {
       res.status(500).json({ message: "Could not continue game" });
     }
@@ -263,63 +555,484 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // WebSocket server for real-time communication
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  new Heartbeat(wss, HEARTBEAT_TIMEOUT_MS).start();
+
+  // Pick up what a restarted or crashed instance left pending, then keep
+  // checking for games another instance stopped serving
+  const recover = () => recoverGames().catch((error) => {
+    console.error('Game recovery error:', error);
+  });
+  recover();
+  const recoveryTimer = setInterval(recover, GAME_RECOVERY_MS);
+  httpServer.on('close', () => clearInterval(recoveryTimer));
 
   wss.on('connection', (ws: WebSocket) => {
     const clientId = randomUUID();
     clients.set(clientId, { ws });
 
-    ws.on('message', async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        if (message.type === 'join_game') {
-          const client = clients.get(clientId);
-          if (client) {
-            client.gameId = message.gameId;
-            client.playerId = message.playerId;
-            clients.set(clientId, client);
-          }
+    // Frames of a connection are handled one at a time, so a command sent
+    // right after join_game finds the seat attached
+    let handled = Promise.resolve();
+    ws.on('message', (data) => {
+      const message = parseClientMessage(data.toString());
+      if (!message) {
+        sendMessage(ws, {
+          type: "error",
+          data: { message: "Malformed message", code: "invalid_message" }
+        });
+        return;
+      }
+
+      handled = handled.then(async () => {
+        switch (message.type) {
+          case "join_game":
+            await joinGame(clientId, message);
+            break;
+          case "watch_game":
+            await watchGame(clientId, message);
+            break;
+          case "resync":
+            await resync(clientId);
+            break;
+          case "presence":
+            await reportPresence(clientId, message);
+            break;
+          default:
+            await runCommand(clientId, message);
         }
-      } catch (error) {
+      }).catch((error) => {
         console.error('WebSocket message error:', error);
-      }
+      });
     });
 
     ws.on('close', async () => {
       const client = clients.get(clientId);
-      if (client && client.gameId && client.playerId) {
-        try {
-          await storage.removePlayerFromGame(client.gameId, client.playerId);
-          
-          broadcastToGame(client.gameId, {
-            type: "player_left",
-            data: { playerId: client.playerId }
-          });
-        } catch (error) {
-          console.error('Error removing player:', error);
+      clients.delete(clientId);
+      if (client?.spectator && client.gameId) {
+        broadcastSpectatorCount(client.gameId);
+        return;
+      }
+      if (!client || !client.gameId || !client.playerId) {
+        return;
+      }
+
+      // The player may still be connected from another tab, which then
+      // decides their presence
+      const { gameId, playerId } = client;
+      const stillConnected = Array.from(clients.values()).some(
+        (other) => other.gameId === gameId && other.playerId === playerId
+      );
+
+      try {
+        if (stillConnected) {
+          await syncPresence(gameId, playerId);
+          return;
         }
+
+        const updatedGame = await dispatchAction(gameId, { type: "disconnect", playerId, at: Date.now() });
+        if (!updatedGame || updatedGame instanceof RuleError) {
+          return;
+        }
+
+        broadcastGameView(updatedGame, "game_state");
+        reconnectGrace.start(gameId, playerId);
+      } catch (error) {
+        console.error('Error disconnecting player:', error);
       }
-      clients.delete(clientId);
     });
   });
 
-  function broadcastToGame(gameId: string, message: WebSocketMessage) {
-    clients.forEach((client) => {
-      if (client.gameId === gameId && client.ws.readyState === WebSocket.OPEN) {
-        client.ws.send(JSON.stringify(message));
+  async function joinGame(clientId: string, message: Extract<ClientMessage, { type: "join_game" }>) {
+    const client = clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const session = await storage.getPlayerSession(message.token);
+    if (!session || session.gameId !== message.gameId || session.playerId !== message.playerId) {
+      sendMessage(client.ws, {
+        type: "error",
+        data: { message: "Invalid player token", code: "invalid_token" }
+      });
+      return;
+    }
+
+    client.gameId = session.gameId;
+    client.playerId = session.playerId;
+    client.lastView = undefined;
+    client.presence = undefined;
+
+    // Re-attaching within the grace window keeps the seat
+    reconnectGrace.cancel(session.gameId, session.playerId);
+
+    const game = await storage.getGame(session.gameId);
+    const player = game?.players.find(p => p.id === session.playerId);
+    if (!game || !player) {
+      return;
+    }
+
+    sendMessage(client.ws, {
+      type: "spectators",
+      data: { count: countSpectators(game.id) }
+    });
+
+    if (!isConnected(player)) {
+      const updatedGame = await dispatchAction(game.id, {
+        type: "reconnect",
+        playerId: session.playerId,
+        at: Date.now(),
+      });
+      if (updatedGame && !(updatedGame instanceof RuleError)) {
+        broadcastGameView(updatedGame, "game_state");
+        return;
+      }
+    }
+
+    sendGameView(client, game, (data) => ({
+      type: "game_state",
+      data
+    }));
+  }
+
+  async function watchGame(clientId: string, message: Extract<ClientMessage, { type: "watch_game" }>) {
+    const client = clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    // Watching would hand a seated socket the handless projection in place
+    // of its own, and drop its seat's updates
+    if (client.playerId) {
+      sendMessage(client.ws, {
+        type: "error",
+        data: { message: "A seated player cannot watch a game", code: "already_seated" }
+      });
+      return;
+    }
+
+    const game = await storage.getGame(message.gameId);
+    if (!game) {
+      sendMessage(client.ws, {
+        type: "error",
+        data: { message: "Game not found", code: "game_not_found" }
+      });
+      return;
+    }
+    if (!game.settings.allowSpectators) {
+      sendMessage(client.ws, {
+        type: "error",
+        data: { message: "Spectators are not allowed in this game", code: "spectators_not_allowed" }
+      });
+      return;
+    }
+
+    client.gameId = game.id;
+    client.spectator = true;
+    client.lastView = undefined;
+    sendGameView(client, game, (data) => ({
+      type: "game_state",
+      data
+    }));
+    broadcastSpectatorCount(game.id);
+  }
+
+  // Sends the whole view again to a client that missed a patch
+  async function resync(clientId: string) {
+    const client = clients.get(clientId);
+    const game = client?.gameId ? await storage.getGame(client.gameId) : undefined;
+    if (!client || !game) {
+      return;
+    }
+
+    client.lastView = undefined;
+    sendGameView(client, game, (data) => ({
+      type: "game_state",
+      data
+    }));
+  }
+
+  async function reportPresence(clientId: string, message: Extract<ClientMessage, { type: "presence" }>) {
+    const client = clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    if (!client.gameId || !client.playerId) {
+      sendMessage(client.ws, {
+        type: "error",
+        data: { message: "Join a game before reporting presence", code: "not_joined" }
+      });
+      return;
+    }
+
+    client.presence = message.presence;
+    await syncPresence(client.gameId, client.playerId);
+  }
+
+  // A player with several tabs open shows as their most active one. Seats
+  // that dropped only come back through join_game.
+  async function syncPresence(gameId: string, playerId: string) {
+    const reported = Array.from(clients.values())
+      .filter((client) => client.gameId === gameId && client.playerId === playerId)
+      .map((client) => client.presence);
+    const presence = ReportedPresence.options.find((option) => reported.includes(option));
+
+    const game = await storage.getGame(gameId);
+    const player = game?.players.find(p => p.id === playerId);
+    if (!presence || !player || !isConnected(player) || player.presence === presence) {
+      return;
+    }
+
+    const updatedGame = await dispatchAction(gameId, { type: "set_presence", playerId, presence, at: Date.now() });
+    if (!updatedGame || updatedGame instanceof RuleError) {
+      return;
+    }
+
+    broadcastGameView(updatedGame, "game_state");
+  }
+
+  // Applies a move sent over the socket for the seat it joined. Everyone
+  // else gets the usual broadcast; the sender gets its view in the ack.
+  async function runCommand(clientId: string, command: GameCommand) {
+    const client = clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const nack = (message: string, code: string) => sendMessage(client.ws, {
+      type: "nack",
+      data: { requestId: command.requestId, message, code }
+    });
+
+    const { gameId, playerId } = client;
+    if (!gameId || !playerId) {
+      return nack("Join a game before sending moves", "not_joined");
+    }
+
+    const updatedGame = await dispatchAction(gameId, commandAction(command, playerId, Date.now()));
+    if (!updatedGame) {
+      return nack("Game not found", "game_not_found");
+    }
+    if (updatedGame instanceof RuleError) {
+      return nack(updatedGame.message, updatedGame.code);
+    }
+
+    broadcastGameView(updatedGame, COMMAND_BROADCAST[command.type], { exceptClientId: clientId });
+    // A later update may already have reached this client through the bus;
+    // patches must stay based on the newest view it holds
+    const view = projectGameForPlayer(updatedGame, playerId);
+    if (!client.lastView || view.version >= client.lastView.version) {
+      client.lastView = view;
+    }
+    sendMessage(client.ws, {
+      type: "ack",
+      data: { requestId: command.requestId, view }
+    });
+  }
+
+  // Runs an action through the rules engine against the latest stored state,
+  // records it in the action log, persists the result, re-arms the game
+  // clock and lets the bots react. Actions on the same game are applied one at a time, across
+  // every instance when the locks are shared; resolves to undefined if the game does not exist.
+  function dispatchAction(gameId: string, action: GameAction): Promise<GameState | RuleError | undefined> {
+    return gameLocks.run(gameId, async () => {
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return undefined;
+      }
+
+      const seed = deriveSeed(game.seed, game.version);
+      const result = applyAction(game, action, createRng(seed));
+      if (result instanceof RuleError) {
+        return result;
+      }
+      // Nothing to record, save or re-arm
+      if (result.state === game) {
+        return game;
+      }
+      const updatedGame = await storage.recordAction(result.state, { seed, action });
+      turnTimers.schedule(updatedGame);
+      botRunner.schedule(updatedGame);
+      return updatedGame;
+    });
+  }
+
+  // Clocks, bot moves and seat removals only live in the process that armed
+  // them. Re-arming them from the stored state lets a game outlive the
+  // instance that last served it. Only games left unsaved for a while are
+  // loaded, each version once, and never the ones this instance is driving;
+  // should several instances still arm the same game, bots decide the same
+  // moves and the engine rejects every copy but the first, as for any late
+  // action.
+  async function recoverGames() {
+    const stamps = await storage.getActiveGameStamps();
+    const active = new Set(stamps.map((stamp) => stamp.id));
+    Array.from(recoveredVersions.keys())
+      .filter((gameId) => !active.has(gameId))
+      .forEach((gameId) => recoveredVersions.delete(gameId));
+
+    const idleSince = Date.now() - GAME_RECOVERY_MS;
+    for (const stamp of stamps) {
+      if (stamp.updatedAt > idleSince || recoveredVersions.get(stamp.id) === stamp.version) {
+        continue;
+      }
+      if (turnTimers.has(stamp.id) || botRunner.has(stamp.id) || reconnectGrace.has(stamp.id)) {
+        continue;
       }
+      const game = await storage.getGame(stamp.id);
+      if (!game) {
+        continue;
+      }
+      recoveredVersions.set(game.id, game.version);
+      turnTimers.schedule(game);
+      botRunner.schedule(game);
+      game.players
+        .filter((player) => !player.bot && !isConnected(player))
+        .forEach((player) => reconnectGrace.resume(game.id, player.id, player.disconnectedAt ?? Date.now()));
+    }
+  }
+
+  function publish(event: GameBusEvent) {
+    bus.publish(event).catch((error) => {
+      console.error('Game bus publish error:', error);
     });
   }
 
-  function createPenaltyCards() {
-    const cards = [];
-    for (let i = 0; i < 10; i++) {
-      cards.push({
-        id: randomUUID(),
-        type: Math.random() > 0.5 ? "truth" as const : "lie" as const
+  function broadcastToGame(gameId: string, message: ServerMessage) {
+    publish({ type: "message", gameId, message });
+  }
+
+  // Sends every client of the game its own projection of the state
+  function broadcastGameView(
+    game: GameState,
+    messageType: GameViewMessage["type"],
+    options: { player?: PublicPlayer; exceptClientId?: string } = {}
+  ) {
+    publish({ type: "view", gameId: game.id, version: game.version, messageType, ...options });
+  }
+
+  async function deliverBusEvent(event: GameBusEvent) {
+    switch (event.type) {
+      case "message":
+        clients.forEach((client) => {
+          if (client.gameId === event.gameId) {
+            sendMessage(client.ws, event.message);
+          }
+        });
+        break;
+      case "view": {
+        // A game that moved on since is left to the event of its newer
+        // version, which carries the right message type
+        const game = await storage.getGame(event.gameId);
+        if (!game || game.version !== event.version) {
+          break;
+        }
+        const buildMessage = viewMessage(event.messageType, event.player);
+        clients.forEach((client, clientId) => {
+          if (client.gameId === game.id && clientId !== event.exceptClientId) {
+            sendGameView(client, game, buildMessage);
+          }
+        });
+        reattachSeats(game);
+        break;
+      }
+      case "spectators":
+        if (event.instanceId !== instanceId) {
+          const counts = remoteSpectators.get(event.gameId) ?? new Map<string, number>();
+          counts.set(event.instanceId, event.count);
+          remoteSpectators.set(event.gameId, counts);
+        }
+        clients.forEach((client) => {
+          if (client.gameId === event.gameId) {
+            sendMessage(client.ws, {
+              type: "spectators",
+              data: { count: countSpectators(event.gameId) }
+            });
+          }
+        });
+        break;
+      case "dismiss_spectators":
+        dismissLocalSpectators(event.gameId);
+        break;
+    }
+  }
+
+  // A player whose tab on another instance closed is still connected if
+  // they have a socket here
+  function reattachSeats(game: GameState) {
+    game.players.forEach((player) => {
+      const attached = Array.from(clients.values()).some(
+        (client) => client.gameId === game.id && client.playerId === player.id
+      );
+      if (isConnected(player) || !attached) {
+        return;
+      }
+
+      dispatchAction(game.id, { type: "reconnect", playerId: player.id, at: Date.now() }).then((updatedGame) => {
+        if (updatedGame && !(updatedGame instanceof RuleError)) {
+          broadcastGameView(updatedGame, "game_state");
+        }
+      }).catch((error) => {
+        console.error('Error reattaching player:', error);
       });
+    });
+  }
+
+  // Spectators get the handless projection, late by the game's spectator delay
+  function sendGameView(client: ClientConnection, game: GameState, buildMessage: (data: GameViewData) => GameViewMessage) {
+    if (!client.spectator) {
+      sendViewUpdate(client, projectGameForPlayer(game, client.playerId), buildMessage);
+      return;
+    }
+    const view = projectGameForPlayer(game);
+    setTimeout(() => {
+      if (client.gameId === game.id) {
+        sendViewUpdate(client, view, buildMessage);
+      }
+    }, game.settings.spectatorDelay * 1000);
+  }
+
+  // A patch on the last view the client was sent, or the whole view if none
+  function sendViewUpdate(client: ClientConnection, view: PlayerView, buildMessage: (data: GameViewData) => GameViewMessage) {
+    // Updates published by different instances can cross on the bus; a
+    // client never goes back to an older state, and an action that changed
+    // nothing sends it nothing
+    if (client.lastView && view.version <= client.lastView.version) {
+      return;
     }
-    return cards;
+    const data = client.lastView ? { patch: diffViews(client.lastView, view) } : { view };
+    client.lastView = view;
+    sendMessage(client.ws, buildMessage(data));
+  }
+
+  function countLocalSpectators(gameId: string): number {
+    return Array.from(clients.values()).filter(client => client.spectator && client.gameId === gameId).length;
+  }
+
+  function countSpectators(gameId: string): number {
+    const remote = Array.from(remoteSpectators.get(gameId)?.values() ?? []);
+    return remote.reduce((total, count) => total + count, countLocalSpectators(gameId));
+  }
+
+  // Every instance announces its own spectators; each adds up the counts
+  function broadcastSpectatorCount(gameId: string) {
+    publish({ type: "spectators", instanceId, gameId, count: countLocalSpectators(gameId) });
+  }
+
+  // Sends away the spectators of a game whose host stopped allowing them
+  function dismissSpectators(gameId: string) {
+    publish({ type: "dismiss_spectators", gameId });
+  }
+
+  function dismissLocalSpectators(gameId: string) {
+    clients.forEach((client) => {
+      if (client.spectator && client.gameId === gameId) {
+        client.gameId = undefined;
+        sendMessage(client.ws, {
+          type: "error",
+          data: { message: "Spectators are not allowed in this game", code: "spectators_not_allowed" }
+        });
+      }
+    });
+    broadcastSpectatorCount(gameId);
   }
 
   return httpServer;
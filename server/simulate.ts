@@ -0,0 +1,84 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { BotStrategyName, GameSettings, GameVariant } from "@shared/schema";
+import { randomSeed } from "@shared/engine";
+import { gamesCsv, runSimulation, seatsCsv, strategiesCsv } from "./simulation";
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>         number of games to play (default 1000)
+  --seed <n>          seed of the whole run, below 2^53 (default: random)
+  --variant <name>    classic | menteur (default classic)
+  --seats <list>      comma-separated strategies, one per seat
+                      (default probabilistic,cautious,aggressive,random)
+  --settings <json>   GameSettings overrides, e.g. '{"handSize":5,"penaltySize":3}'
+  --rotate            shift strategies one seat after every game
+  --out <dir>         write report.json, seats.csv, strategies.csv and games.csv
+                      there instead of printing the summary as JSON
+`;
+
+// A whole number of at least `min`, as typed on the command line
+function parseWholeNumber(flag: string, value: string, min: number): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isSafeInteger(parsed) || parsed < min) {
+    throw new Error(`--${flag} must be a whole number of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Plays bot-only games straight through the rules engine, without HTTP or
+// WebSockets, and reports how the rules and strategies balance out
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      games: { type: "string" },
+      seed: { type: "string" },
+      variant: { type: "string" },
+      seats: { type: "string" },
+      settings: { type: "string" },
+      rotate: { type: "boolean", default: false },
+      out: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const seats = (values.seats ?? "probabilistic,cautious,aggressive,random").split(",").map(seat => BotStrategyName.parse(seat.trim()));
+  const report = runSimulation({
+    variant: GameVariant.parse(values.variant ?? "classic"),
+    settings: GameSettings.parse(JSON.parse(values.settings ?? "{}")),
+    seats,
+    games: parseWholeNumber("games", values.games ?? "1000", 1),
+    seed: values.seed !== undefined ? parseWholeNumber("seed", values.seed, 0) : randomSeed(),
+    rotate: values.rotate,
+  });
+  if (report.capped > 0) {
+    console.error(`${report.capped} of ${report.games} games hit the action cap and are left out of the results`);
+  }
+
+  if (!values.out) {
+    const { records, ...summary } = report;
+    process.stdout.write(JSON.stringify(summary, null, 2) + "\n");
+    return;
+  }
+
+  await mkdir(values.out, { recursive: true });
+  await Promise.all([
+    writeFile(path.join(values.out, "report.json"), JSON.stringify(report, null, 2)),
+    writeFile(path.join(values.out, "seats.csv"), seatsCsv(report)),
+    writeFile(path.join(values.out, "strategies.csv"), strategiesCsv(report)),
+    writeFile(path.join(values.out, "games.csv"), gamesCsv(report)),
+  ]);
+  console.error(`${report.games} games written to ${values.out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.stderr.write(USAGE);
+  process.exit(1);
+});
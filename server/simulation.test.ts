@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { GameSettings, type BotStrategyName, type GameVariant } from "@shared/schema";
+import { runSimulation, simulateGame } from "./simulation";
+
+const SEATS: BotStrategyName[] = ["probabilistic", "cautious", "aggressive", "random"];
+
+function simulate(variant: GameVariant, seed: number, games = 4) {
+  return runSimulation({ variant, settings: GameSettings.parse({}), seats: SEATS, games, seed, rotate: true });
+}
+
+describe("classic bots", () => {
+  it("call out a seat that keeps lying", () => {
+    const report = simulate("classic", 7);
+    expect(report.rejectedMoves).toBe(0);
+    for (const strategy of ["probabilistic", "aggressive"]) {
+      const stats = report.byStrategy.find(s => s.strategy === strategy)!;
+      expect(stats.accusations, strategy).toBeGreaterThan(0);
+      expect(stats.successfulAccusations, strategy).toBeGreaterThan(0);
+    }
+  });
+
+  it("finish a game instead of trading the pile back and forth", () => {
+    const { record } = simulateGame("classic", GameSettings.parse({}), SEATS, 1);
+    expect(record.capped).toBe(false);
+    expect(record.winnerSeat).toBeDefined();
+    expect(record.turns).toBeLessThan(200);
+    expect(record.challenges).toBeGreaterThan(0);
+  });
+});
+
+describe("runSimulation", () => {
+  it.each(["classic", "menteur"] as const)("finishes every %s game", (variant) => {
+    const report = simulate(variant, 11);
+    expect(report.capped).toBe(0);
+    expect(report.rejectedMoves).toBe(0);
+    expect(report.records.every(r => r.winnerSeat !== undefined)).toBe(true);
+    expect(report.byStrategy.reduce((wins, s) => wins + s.wins, 0)).toBe(report.games);
+  });
+
+  it("uses every bit of a wide seed", () => {
+    const seedOf = (seed: number) => simulate("menteur", seed, 1).records[0].seed;
+    expect(seedOf(2 ** 40)).not.toBe(seedOf(2 ** 40 + 2 ** 33));
+    expect(seedOf(2 ** 40)).toBe(seedOf(2 ** 40));
+  });
+});
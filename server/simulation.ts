@@ -0,0 +1,311 @@
+import { isTruthfulPlay } from "@shared/cards";
+import type { BotStrategyName, GameSettings, GameState, GameVariant } from "@shared/schema";
+import {
+  applyAction,
+  createGame,
+  createRng,
+  deriveSeed,
+  RuleError,
+  type GameAction
+} from "@shared/engine";
+import { BOT_STRATEGIES } from "@shared/bots";
+import { projectGameForPlayer } from "./projection";
+
+// Virtual milliseconds a bot takes to act; the simulation never waits
+const THINK_MS = 1000;
+// Games still running after this many actions are stopped and reported as
+// capped, apart from the results
+const MAX_ACTIONS = 5000;
+// The engine only appends to the event log, and bots only look at its
+// recent part: the last plays and the accusations that revealed lies.
+// Trimming it keeps each game linear in its length.
+const KEPT_EVENTS = 200;
+
+export interface SimulationConfig {
+  variant: GameVariant;
+  settings: GameSettings;
+  // Strategy of each seat, in seat order
+  seats: BotStrategyName[];
+  games: number;
+  seed: number;
+  // Shift the strategies one seat to the left after every game, to tell
+  // seat advantage apart from strategy strength
+  rotate?: boolean;
+}
+
+export interface SeatStats {
+  wins: number;
+  plays: number;
+  lies: number;
+  liesCaught: number;
+  accusations: number;
+  successfulAccusations: number;
+}
+
+export interface GameRecord {
+  game: number;
+  seed: number;
+  seats: BotStrategyName[];
+  // Seat index of the match winner; undefined if the game was capped
+  winnerSeat?: number;
+  // Stopped at MAX_ACTIONS without a winner
+  capped: boolean;
+  rounds: number;
+  turns: number;
+  challenges: number;
+  successfulChallenges: number;
+  lies: number;
+  liesCaught: number;
+  // Bot moves the engine rejected; should stay at zero
+  rejectedMoves: number;
+}
+
+// Every figure but `capped` covers the finished games only; a capped game
+// has no result to count
+export interface SimulationReport {
+  config: SimulationConfig;
+  games: number;
+  capped: number;
+  averageTurns: number;
+  averageRounds: number;
+  challengeSuccessRate: number;
+  liarCatchRate: number;
+  rejectedMoves: number;
+  bySeat: (SeatStats & { seat: number; winRate: number })[];
+  byStrategy: (SeatStats & { strategy: BotStrategyName; seatsPlayed: number; winRate: number })[];
+  records: GameRecord[];
+}
+
+function emptyStats(): SeatStats {
+  return { wins: 0, plays: 0, lies: 0, liesCaught: 0, accusations: 0, successfulAccusations: 0 };
+}
+
+function addStats(into: SeatStats, from: SeatStats) {
+  for (const key of Object.keys(from) as (keyof SeatStats)[]) {
+    into[key] += from[key];
+  }
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? part / whole : 0;
+}
+
+// Plays one bot-only game through the rules engine with a virtual clock.
+// Seat 0 creates the game and is driven by the harness like the others. The
+// seed is the game seed, so a game can be reproduced on a development server.
+export function simulateGame(
+  variant: GameVariant,
+  settings: GameSettings,
+  seats: BotStrategyName[],
+  seed: number,
+): { record: Omit<GameRecord, "game">; stats: SeatStats[] } {
+  // Bot decisions draw from their own stream, at an index no action has, so
+  // the game seed alone fixes every deal and draw, exactly as on the server
+  const decisions = createRng(deriveSeed(seed, -1));
+  const ids = seats.map((_, seat) => `seat-${seat}`);
+  const stats = seats.map(() => emptyStats());
+  const record: Omit<GameRecord, "game"> = {
+    seed,
+    seats,
+    rounds: 0,
+    turns: 0,
+    challenges: 0,
+    successfulChallenges: 0,
+    lies: 0,
+    liesCaught: 0,
+    rejectedMoves: 0,
+    capped: false,
+  };
+
+  let now = 0;
+  const created = createGame({
+    type: "create",
+    gameId: `sim-${seed}`,
+    variant,
+    playerId: ids[0],
+    playerName: "Seat 0",
+    settings,
+    seed,
+    at: now,
+  }, createRng(deriveSeed(seed, 0)));
+  if (created instanceof RuleError) {
+    throw new Error(`Invalid simulation settings: ${created.message}`);
+  }
+  let state: GameState = created.state;
+
+  const apply = (action: GameAction): boolean => {
+    const result = applyAction(state, action, createRng(deriveSeed(state.seed, state.version)));
+    if (result instanceof RuleError) {
+      return false;
+    }
+    state = result.state;
+    state.events = state.events.slice(-KEPT_EVENTS);
+    return true;
+  };
+
+  const setup: GameAction[] = [
+    ...seats.slice(1).map((strategy, index): GameAction => ({
+      type: "add_bot",
+      playerId: ids[0],
+      botId: ids[index + 1],
+      botName: `Seat ${index + 1}`,
+      strategy,
+      at: now,
+    })),
+    { type: "set_ready", playerId: ids[0], ready: true, at: now },
+    { type: "start", playerId: ids[0], at: now },
+  ];
+  for (const action of setup) {
+    if (!apply(action)) {
+      throw new Error(`Could not set up the simulated game (${action.type})`);
+    }
+  }
+
+  const seatOf = (playerId: string) => ids.indexOf(playerId);
+  const strategyOf = (playerId: string) => BOT_STRATEGIES[seats[seatOf(playerId)]];
+
+  for (let actions = 0; actions < MAX_ACTIONS && state.phase !== "finished"; actions++) {
+    now += THINK_MS;
+
+    if (state.phase === "playing") {
+      const playerId = state.currentPlayerId;
+      const play = strategyOf(playerId).play(projectGameForPlayer(state, playerId), decisions);
+      const player = state.players.find(p => p.id === playerId)!;
+      const cards = play.cardIds.map(id => player.cards.find(c => c.id === id)!).filter(Boolean);
+      const honest = isTruthfulPlay(cards, play.claim);
+
+      if (apply({ type: "play_cards", playerId, ...play, at: now })) {
+        record.turns += 1;
+        stats[seatOf(playerId)].plays += 1;
+        if (!honest) {
+          record.lies += 1;
+          stats[seatOf(playerId)].lies += 1;
+        }
+      } else {
+        record.rejectedMoves += 1;
+        now = Math.max(now, state.turnDeadline ?? now);
+        apply({ type: "turn_timeout", playerId, at: now });
+      }
+      continue;
+    }
+
+    if (state.phase === "accusation") {
+      const targetId = state.lastPlayerId!;
+      const lie = !isTruthfulPlay(state.lastPlayedCards, state.lastClaim);
+      // Everyone else gets a say, starting with the next seat
+      const order = state.players
+        .map((_, offset) => state.players[(seatOf(targetId) + 1 + offset) % state.players.length])
+        .filter(p => p.id !== targetId);
+      const accuser = order.find(p => strategyOf(p.id).shouldAccuse(projectGameForPlayer(state, p.id), decisions));
+
+      if (accuser && apply({ type: "accuse", playerId: accuser.id, targetId, at: Math.min(now, state.challengeDeadline ?? now) })) {
+        record.challenges += 1;
+        stats[seatOf(accuser.id)].accusations += 1;
+        if (lie) {
+          record.successfulChallenges += 1;
+          record.liesCaught += 1;
+          stats[seatOf(accuser.id)].successfulAccusations += 1;
+          stats[seatOf(targetId)].liesCaught += 1;
+        }
+      } else {
+        now = Math.max(now, state.challengeDeadline ?? now);
+        apply({ type: "close_challenge", at: now });
+      }
+      continue;
+    }
+
+    if (state.phase === "revelation") {
+      for (const playerId of ids) {
+        apply({ type: "continue", playerId, at: now });
+      }
+      continue;
+    }
+
+    if (state.phase === "intermission") {
+      apply({ type: "next_round", playerId: state.hostId, at: now });
+      continue;
+    }
+
+    throw new Error(`Simulation stuck in phase ${state.phase}`);
+  }
+
+  record.rounds = state.match.round;
+  if (state.phase === "finished" && state.match.winnerId) {
+    record.winnerSeat = seatOf(state.match.winnerId);
+    stats[record.winnerSeat].wins += 1;
+  } else {
+    record.capped = true;
+  }
+  return { record, stats };
+}
+
+// Runs the configured number of games, each from its own seed derived from
+// the configuration seed, and aggregates the results of the finished ones
+export function runSimulation(config: SimulationConfig): SimulationReport {
+  const bySeat = config.seats.map(() => emptyStats());
+  const byStrategy = new Map<BotStrategyName, SeatStats & { seatsPlayed: number }>();
+  const records: GameRecord[] = [];
+
+  for (let game = 0; game < config.games; game++) {
+    const shift = config.rotate ? game % config.seats.length : 0;
+    const seats = config.seats.map((_, seat) => config.seats[(seat + shift) % config.seats.length]);
+    const { record, stats } = simulateGame(config.variant, config.settings, seats, deriveSeed(config.seed, game));
+    records.push({ game, ...record });
+    if (record.capped) {
+      continue;
+    }
+
+    stats.forEach((seatStats, seat) => {
+      addStats(bySeat[seat], seatStats);
+      const strategy = byStrategy.get(seats[seat]) ?? { ...emptyStats(), seatsPlayed: 0 };
+      addStats(strategy, seatStats);
+      strategy.seatsPlayed += 1;
+      byStrategy.set(seats[seat], strategy);
+    });
+  }
+
+  const finished = records.filter(r => !r.capped);
+  const sum = (pick: (r: GameRecord) => number) => finished.reduce((total, r) => total + pick(r), 0);
+
+  return {
+    config,
+    games: records.length,
+    capped: records.length - finished.length,
+    averageTurns: ratio(sum(r => r.turns), finished.length),
+    averageRounds: ratio(sum(r => r.rounds), finished.length),
+    challengeSuccessRate: ratio(sum(r => r.successfulChallenges), sum(r => r.challenges)),
+    liarCatchRate: ratio(sum(r => r.liesCaught), sum(r => r.lies)),
+    // A harness check rather than a result, so capped games count too
+    rejectedMoves: records.reduce((total, r) => total + r.rejectedMoves, 0),
+    bySeat: bySeat.map((stats, seat) => ({ seat, ...stats, winRate: ratio(stats.wins, finished.length) })),
+    byStrategy: Array.from(byStrategy, ([strategy, stats]) => ({
+      strategy,
+      ...stats,
+      winRate: ratio(stats.wins, stats.seatsPlayed),
+    })),
+    records,
+  };
+}
+
+function toCsv<T extends object>(rows: T[], columns: (keyof T)[]): string {
+  const escape = (value: unknown) => {
+    const text = Array.isArray(value) ? value.join("|") : String(value ?? "");
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.join(","),
+    ...rows.map(row => columns.map(column => escape(row[column])).join(",")),
+  ].join("\n") + "\n";
+}
+
+export function seatsCsv(report: SimulationReport): string {
+  return toCsv(report.bySeat, ["seat", "wins", "winRate", "plays", "lies", "liesCaught", "accusations", "successfulAccusations"]);
+}
+
+export function strategiesCsv(report: SimulationReport): string {
+  return toCsv(report.byStrategy, ["strategy", "seatsPlayed", "wins", "winRate", "plays", "lies", "liesCaught", "accusations", "successfulAccusations"]);
+}
+
+export function gamesCsv(report: SimulationReport): string {
+  return toCsv(report.records, ["game", "seed", "seats", "capped", "winnerSeat", "rounds", "turns", "challenges", "successfulChallenges", "lies", "liesCaught", "rejectedMoves"]);
+}
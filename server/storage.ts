@@ -1,13 +1,26 @@
 import { 
   type User, 
   type InsertUser, 
-  type GameState, 
-  type Player, 
-  type Card, 
-  type GameEvent,
-  CardType 
+  type GameState
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import type { ActionRecord } from "@shared/engine";
+import { randomBytes, randomUUID } from "crypto";
+
+// Secret bound to one seat of one game, handed to the player when they sit down
+export interface PlayerSession {
+  token: string;
+  gameId: string;
+  playerId: string;
+}
+
+// Enough of an unfinished game to tell whether anyone is still serving it,
+// without loading its hands and piles
+export interface ActiveGameStamp {
+  id: string;
+  version: number;
+  // When the game was last saved
+  updatedAt: number;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -15,21 +28,40 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   
   // Game methods
-  createGame(hostPlayer: Player): Promise<GameState>;
+  generateGameId(): Promise<string>;
+  createGame(gameState: GameState): Promise<GameState>;
   getGame(id: string): Promise<GameState | undefined>;
   updateGame(gameState: GameState): Promise<GameState>;
-  addPlayerToGame(gameId: string, player: Player): Promise<GameState>;
-  removePlayerFromGame(gameId: string, playerId: string): Promise<GameState>;
   getAllGames(): Promise<GameState[]>;
+  // Games not finished yet, which may have clocks, bot moves or seat
+  // removals pending
+  getActiveGameStamps(): Promise<ActiveGameStamp[]>;
+
+  // Action log methods; the storage assigns sequence numbers
+  appendAction(gameId: string, record: Omit<ActionRecord, "seq">): Promise<ActionRecord>;
+  // Saves the state an action produced along with its log entry: both are
+  // written or neither is
+  recordAction(gameState: GameState, record: Omit<ActionRecord, "seq">): Promise<GameState>;
+  getActions(gameId: string): Promise<ActionRecord[]>;
+
+  // Player session methods
+  createPlayerSession(gameId: string, playerId: string): Promise<PlayerSession>;
+  getPlayerSession(token: string): Promise<PlayerSession | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private games: Map<string, GameState>;
+  private savedAt: Map<string, number>;
+  private actions: Map<string, ActionRecord[]>;
+  private sessions: Map<string, PlayerSession>;
 
   constructor() {
     this.users = new Map();
     this.games = new Map();
+    this.savedAt = new Map();
+    this.actions = new Map();
+    this.sessions = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -49,37 +81,21 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async createGame(hostPlayer: Player): Promise<GameState> {
-    const gameId = this.generateGameId();
-    
-    // Initialize deck and deal cards
-    const deck = this.createDeck();
-    const playerCards = deck.splice(0, 7);
-    
-    const gameState: GameState = {
-      id: gameId,
-      phase: "waiting",
-      players: [{
-        ...hostPlayer,
-        cards: playerCards,
-        cardCount: playerCards.length
-      }],
-      currentPlayerId: hostPlayer.id,
-      centerPile: [],
-      events: [{
-        id: randomUUID(),
-        type: "join",
-        playerId: hostPlayer.id,
-        playerName: hostPlayer.name,
-        timestamp: Date.now(),
-        message: `${hostPlayer.name} a créé la partie`
-      }],
-      turnTimer: 45,
-      maxPlayers: 6,
-      minPlayers: 2,
-    };
+  async generateGameId(): Promise<string> {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let result: string;
+    do {
+      result = '';
+      for (let i = 0; i < 6; i++) {
+        result += chars.charAt(Math.floor(Math.random() * chars.length));
+      }
+    } while (this.games.has(result));
+    return result;
+  }
 
-    this.games.set(gameId, gameState);
+  async createGame(gameState: GameState): Promise<GameState> {
+    this.games.set(gameState.id, gameState);
+    this.savedAt.set(gameState.id, Date.now());
     return gameState;
   }
 
@@ -89,133 +105,48 @@ export class MemStorage implements IStorage {
 
   async updateGame(gameState: GameState): Promise<GameState> {
     this.games.set(gameState.id, gameState);
+    this.savedAt.set(gameState.id, Date.now());
     return gameState;
   }
 
-  async addPlayerToGame(gameId: string, player: Player): Promise<GameState> {
-    const game = this.games.get(gameId);
-    if (!game) {
-      throw new Error("Game not found");
-    }
-
-    if (game.players.length >= game.maxPlayers) {
-      throw new Error("Game is full");
-    }
-
-    // Deal cards to new player
-    const deck = this.createDeck();
-    const playerCards = deck.splice(0, 7);
-    
-    const newPlayer: Player = {
-      ...player,
-      cards: playerCards,
-      cardCount: playerCards.length
-    };
+  async getAllGames(): Promise<GameState[]> {
+    return Array.from(this.games.values());
+  }
 
-    game.players.push(newPlayer);
-    
-    game.events.push({
-      id: randomUUID(),
-      type: "join",
-      playerId: player.id,
-      playerName: player.name,
-      timestamp: Date.now(),
-      message: `${player.name} a rejoint la partie`
-    });
-
-    // Start game automatically when minimum players are reached
-    if (game.players.length >= game.minPlayers && game.phase === "waiting") {
-      game.phase = "playing";
-      game.events.push({
-        id: randomUUID(),
-        type: "game_start",
-        playerId: "",
-        playerName: "",
-        timestamp: Date.now(),
-        message: `La partie commence avec ${game.players.length} joueurs !`
-      });
-    }
-
-    // Start game if we have enough players
-    if (game.players.length >= game.minPlayers && game.phase === "waiting") {
-      game.phase = "playing";
-    }
-
-    this.games.set(gameId, game);
-    return game;
+  async getActiveGameStamps(): Promise<ActiveGameStamp[]> {
+    return Array.from(this.games.values())
+      .filter((game) => game.phase !== "finished")
+      .map((game) => ({ id: game.id, version: game.version, updatedAt: this.savedAt.get(game.id) ?? 0 }));
   }
 
-  async removePlayerFromGame(gameId: string, playerId: string): Promise<GameState> {
-    const game = this.games.get(gameId);
-    if (!game) {
-      throw new Error("Game not found");
-    }
-
-    const playerIndex = game.players.findIndex(p => p.id === playerId);
-    if (playerIndex === -1) {
-      throw new Error("Player not found in game");
-    }
-
-    const player = game.players[playerIndex];
-    game.players.splice(playerIndex, 1);
-
-    game.events.push({
-      id: randomUUID(),
-      type: "leave",
-      playerId: player.id,
-      playerName: player.name,
-      timestamp: Date.now(),
-      message: `${player.name} a quitté la partie`
-    });
-
-    // End game if not enough players
-    if (game.players.length < game.minPlayers) {
-      game.phase = "finished";
-    }
-
-    this.games.set(gameId, game);
-    return game;
+  async appendAction(gameId: string, record: Omit<ActionRecord, "seq">): Promise<ActionRecord> {
+    const log = this.actions.get(gameId) ?? [];
+    const entry: ActionRecord = { ...record, seq: log.length };
+    log.push(entry);
+    this.actions.set(gameId, log);
+    return entry;
   }
 
-  async getAllGames(): Promise<GameState[]> {
-    return Array.from(this.games.values());
+  async recordAction(gameState: GameState, record: Omit<ActionRecord, "seq">): Promise<GameState> {
+    await this.appendAction(gameState.id, record);
+    return this.updateGame(gameState);
   }
 
-  private generateGameId(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
+  async getActions(gameId: string): Promise<ActionRecord[]> {
+    return this.actions.get(gameId) ?? [];
   }
 
-  private createDeck(): Card[] {
-    const deck: Card[] = [];
-    
-    // Create a balanced deck with truth and lie cards
-    for (let i = 0; i < 30; i++) {
-      deck.push({
-        id: randomUUID(),
-        type: "truth" as CardType
-      });
-    }
-    
-    for (let i = 0; i < 30; i++) {
-      deck.push({
-        id: randomUUID(),
-        type: "lie" as CardType
-      });
-    }
-    
-    // Shuffle the deck
-    for (let i = deck.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [deck[i], deck[j]] = [deck[j], deck[i]];
-    }
-    
-    return deck;
+  async createPlayerSession(gameId: string, playerId: string): Promise<PlayerSession> {
+    const session: PlayerSession = {
+      token: randomBytes(32).toString("base64url"),
+      gameId,
+      playerId,
+    };
+    this.sessions.set(session.token, session);
+    return session;
   }
-}
 
-export const storage = new MemStorage();
+  async getPlayerSession(token: string): Promise<PlayerSession | undefined> {
+    return this.sessions.get(token);
+  }
+}
@@ -0,0 +1,52 @@
+import type { GameState } from "@shared/schema";
+import type { GameAction } from "@shared/engine";
+
+type ExpireHandler = (gameId: string, action: GameAction) => void;
+
+// Keeps one pending timeout per game, matching the deadline of the latest
+// saved state: the current turn while playing, the challenge window after a
+// play, or the revelation after an accusation. The handler submits the given
+// action, which the engine rejects if the game moved on in the meantime.
+export class TurnTimers {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private onExpire: ExpireHandler) {}
+
+  schedule(game: GameState) {
+    this.cancel(game.id);
+
+    let deadline: number | undefined;
+    let expire: (at: number) => GameAction;
+    if (game.phase === "playing" && game.turnDeadline) {
+      const playerId = game.currentPlayerId;
+      deadline = game.turnDeadline;
+      expire = (at) => ({ type: "turn_timeout", playerId, at });
+    } else if (game.phase === "accusation" && game.challengeDeadline) {
+      deadline = game.challengeDeadline;
+      expire = (at) => ({ type: "close_challenge", at });
+    } else if (game.phase === "revelation" && game.revelationDeadline) {
+      deadline = game.revelationDeadline;
+      expire = (at) => ({ type: "close_revelation", at });
+    } else {
+      return;
+    }
+
+    const delay = Math.max(0, deadline - Date.now());
+    this.timers.set(game.id, setTimeout(() => {
+      this.timers.delete(game.id);
+      this.onExpire(game.id, expire(Date.now()));
+    }, delay));
+  }
+
+  has(gameId: string): boolean {
+    return this.timers.has(gameId);
+  }
+
+  cancel(gameId: string) {
+    const timer = this.timers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(gameId);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { isRankedCard } from "../cards";
+import { CardRank, CardSuit, type Card, type CardRank as Rank, type PlayerView } from "../schema";
+import { countDeckCards } from "../engine/deck";
+
+// How likely the latest play is to be honest, judged only from what the
+// seat can see: its own hand, the deck composition and the claim. Returns 0
+// when the claim is impossible.
+export function estimateTruthProbability(view: PlayerView): number {
+  const accused = view.players.find(p => p.id === view.lastPlayerId);
+  if (!accused) {
+    return 1;
+  }
+
+  const unknown = countDeckCards(view.variant, view.settings.deck) - view.hand.length;
+  if (unknown <= 0) {
+    return 1;
+  }
+
+  // A classic play is honest only if the accused held a truth card and chose
+  // to play it, which they do about as often as they have been caught
+  // telling the truth so far
+  if (view.variant === "classic") {
+    const ownTruths = view.hand.filter(c => !isRankedCard(c) && c.type === "truth").length;
+    const unknownTruths = Math.max(0, view.settings.deck.truthCards - ownTruths);
+    return atLeast(1, accused.cardCount + 1, unknownTruths, unknown) * (1 - observedLieRate(view, accused.id));
+  }
+
+  const claim = view.lastClaim;
+  if (!claim) {
+    return 1;
+  }
+  const remaining = copiesOfRank(view) - countRank(view.hand, claim.rank);
+  if (claim.count > remaining) {
+    return 0;
+  }
+  // Chance the accused held enough cards of the rank before playing. Whoever
+  // opens a sequence picks the rank, so any of the ranks will do.
+  const handBefore = accused.cardCount + claim.count;
+  const held = atLeast(claim.count, handBefore, remaining, unknown);
+  return openedSequence(view) ? 1 - Math.pow(1 - held, CardRank.options.length) : held;
+}
+
+// Before anything is revealed, players are taken to lie as often as the
+// deck holds lie cards; the prior weighs as much as one revealed play
+const PRIOR_WEIGHT = 1;
+
+// Share of the player's revealed classic plays that were lies, pulled
+// toward the prior while there are only a few of them
+function observedLieRate(view: PlayerView, playerId: string): number {
+  const { truthCards, lieCards } = view.settings.deck;
+  const prior = lieCards / (truthCards + lieCards);
+  const revealed = view.events.filter(e => e.type === "accusation" && e.targetId === playerId && e.cardType);
+  const lies = revealed.filter(e => e.cardType === "lie").length;
+  return (lies + prior * PRIOR_WEIGHT) / (revealed.length + PRIOR_WEIGHT);
+}
+
+// Hypergeometric tail: chance that `drawn` cards out of a pool of `pool`
+// holding `copies` matching cards include at least `count` of them
+function atLeast(count: number, drawn: number, copies: number, pool: number): number {
+  let below = 0;
+  for (let k = 0; k < count; k++) {
+    below += choose(copies, k) * choose(pool - copies, drawn - k) / choose(pool, drawn);
+  }
+  return Math.max(0, Math.min(1, 1 - below));
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) {
+    return 0;
+  }
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = result * (n - k + i) / i;
+  }
+  return result;
+}
+
+// Whether the latest play started a new claim sequence rather than
+// following a required rank
+function openedSequence(view: PlayerView): boolean {
+  const plays = view.events.filter(e => ["card_played", "accusation", "game_start"].includes(e.type));
+  return plays[plays.length - 2]?.type !== "card_played";
+}
+
+export function copiesOfRank(view: PlayerView): number {
+  return view.settings.deck.packs * CardSuit.options.length;
+}
+
+export function countRank(cards: Card[], rank: Rank): number {
+  return cards.filter(c => isRankedCard(c) && c.rank === rank).length;
+}
+
+// The rank the seat holds most of, to open a new claim sequence honestly
+export function strongestRank(cards: Card[]): Rank | undefined {
+  let best: Rank | undefined;
+  for (const rank of CardRank.options) {
+    if (countRank(cards, rank) > (best ? countRank(cards, best) : 0)) {
+      best = rank;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,2 @@
+export * from "./strategies";
+export { estimateTruthProbability } from "./estimate";
@@ -0,0 +1,175 @@
+import { isRankedCard } from "../cards";
+import { CardRank, type BotStrategyName, type Card, type Claim, type PlayerView } from "../schema";
+import { shuffle } from "../engine/deck";
+import type { Rng } from "../engine/types";
+import { estimateTruthProbability, strongestRank } from "./estimate";
+
+// What a bot lays down on its turn
+export interface BotPlay {
+  cardIds: string[];
+  claim?: Claim;
+}
+
+// A bot sees exactly what a human in its seat would see, and its decisions
+// go through the same rules as everyone else's moves.
+export interface BotStrategy {
+  readonly name: BotStrategyName;
+  play(view: PlayerView, rng: Rng): BotPlay;
+  // Whether to call "Menteur!" on the latest play
+  shouldAccuse(view: PlayerView, rng: Rng): boolean;
+}
+
+function pick<T>(items: T[], rng: Rng): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+function toPlay(cards: Card[], claim?: Claim): BotPlay {
+  return { cardIds: cards.map(c => c.id), claim };
+}
+
+// Classic games play a single truth or lie card, preferring the given type
+function playClassic(view: PlayerView, prefer: "truth" | "lie", rng: Rng): BotPlay {
+  const preferred = view.hand.filter(c => !isRankedCard(c) && c.type === prefer);
+  return toPlay([pick(preferred.length > 0 ? preferred : view.hand, rng)]);
+}
+
+// Every held card of the required rank, or of the strongest rank when a new
+// sequence starts. No cards when the seat has to bluff.
+function honestPlay(view: PlayerView): { rank: CardRank; cards: Card[] } | undefined {
+  const rank = view.requiredRank ?? strongestRank(view.hand);
+  const cards = view.hand.filter(c => isRankedCard(c) && c.rank === rank).slice(0, 4);
+  return rank && cards.length > 0 ? { rank, cards } : undefined;
+}
+
+// Lays off-rank cards while announcing the required rank
+function bluff(view: PlayerView, count: number, rng: Rng): BotPlay {
+  const rank = view.requiredRank ?? pick(CardRank.options, rng);
+  const cards = shuffle(view.hand.filter(c => !(isRankedCard(c) && c.rank === rank)), rng).slice(0, count);
+  return toPlay(cards, { rank, count: cards.length });
+}
+
+// In classic, a call only pays against a seat that is ahead in the race and
+// has more than its own card at stake: the loser takes the pile back into
+// play either way, so calling everything would keep the hands from ever
+// shrinking
+function worthCalling(view: PlayerView): boolean {
+  if (view.variant !== "classic") {
+    return true;
+  }
+  const accused = view.players.find(p => p.id === view.lastPlayerId);
+  return !!accused && accused.cardCount < view.hand.length && view.centerPileCount > 1;
+}
+
+// Whether this is the last play of the accused that can still be called:
+// their final card, or the one before it when the final card wins outright
+function lastChance(view: PlayerView): boolean {
+  const accused = view.players.find(p => p.id === view.lastPlayerId);
+  return !!accused && accused.cardCount <= (view.settings.lastCardChallengeable ? 0 : 1);
+}
+
+// Plays anything and calls at random
+export const randomStrategy: BotStrategy = {
+  name: "random",
+  play(view, rng) {
+    if (view.variant === "classic") {
+      return toPlay([pick(view.hand, rng)]);
+    }
+    const count = 1 + Math.floor(rng() * Math.min(4, view.hand.length));
+    const cards = shuffle([...view.hand], rng).slice(0, count);
+    const rank = view.requiredRank ?? (isRankedCard(cards[0]) ? cards[0].rank : pick(CardRank.options, rng));
+    return toPlay(cards, { rank, count: cards.length });
+  },
+  shouldAccuse(_view, rng) {
+    return rng() < 0.25;
+  },
+};
+
+// Tells the truth whenever possible and only calls near-certain lies, or a
+// suspicious play on a seat's last chance to be called
+export const cautiousStrategy: BotStrategy = {
+  name: "cautious",
+  play(view, rng) {
+    if (view.variant === "classic") {
+      return playClassic(view, "truth", rng);
+    }
+    const honest = honestPlay(view);
+    return honest ? toPlay(honest.cards, { rank: honest.rank, count: honest.cards.length }) : bluff(view, 1, rng);
+  },
+  shouldAccuse(view) {
+    if (!worthCalling(view)) {
+      return false;
+    }
+    const truth = estimateTruthProbability(view);
+    return truth <= 0.1 || (lastChance(view) && truth < 0.5);
+  },
+};
+
+// Pads honest plays with an extra card, bluffs big and calls often
+export const aggressiveStrategy: BotStrategy = {
+  name: "aggressive",
+  play(view, rng) {
+    if (view.variant === "classic") {
+      return playClassic(view, "lie", rng);
+    }
+    const honest = honestPlay(view);
+    if (!honest) {
+      return bluff(view, 2, rng);
+    }
+    const cards = [...honest.cards];
+    const spare = view.hand.filter(c => !cards.includes(c));
+    if (cards.length < 4 && spare.length > 0 && rng() < 0.5) {
+      cards.push(pick(spare, rng));
+    }
+    return toPlay(cards, { rank: honest.rank, count: cards.length });
+  },
+  shouldAccuse(view, rng) {
+    if (!worthCalling(view)) {
+      return false;
+    }
+    return estimateTruthProbability(view) < 0.7 || rng() < 0.3;
+  },
+};
+
+// Calls whenever the claim is more likely false than true, given the deck
+// composition and its own hand
+export const probabilisticStrategy: BotStrategy = {
+  name: "probabilistic",
+  play(view, rng) {
+    if (view.variant === "classic") {
+      return playClassic(view, "truth", rng);
+    }
+    const honest = honestPlay(view);
+    return honest ? toPlay(honest.cards, { rank: honest.rank, count: honest.cards.length }) : bluff(view, 1, rng);
+  },
+  shouldAccuse(view) {
+    if (!worthCalling(view)) {
+      return false;
+    }
+    const truth = estimateTruthProbability(view);
+    return truth < (lastChance(view) ? 0.9 : 0.5);
+  },
+};
+
+export const BOT_STRATEGIES: Record<BotStrategyName, BotStrategy> = {
+  random: randomStrategy,
+  cautious: cautiousStrategy,
+  aggressive: aggressiveStrategy,
+  probabilistic: probabilisticStrategy,
+};
+
+export const BOT_LABELS: Record<BotStrategyName, string> = {
+  random: "Hasard",
+  cautious: "Prudent",
+  aggressive: "Agressif",
+  probabilistic: "Calculateur",
+};
+
+// "Bot Prudent", then "Bot Prudent 2"... so seats stay distinguishable
+export function nameBot(strategy: BotStrategyName, taken: string[]): string {
+  const base = `Bot ${BOT_LABELS[strategy]}`;
+  let name = base;
+  for (let n = 2; taken.includes(name); n++) {
+    name = `${base} ${n}`;
+  }
+  return name;
+}
@@ -0,0 +1,42 @@
+import type { Card, CardRank, CardSuit, Claim, RankedCard } from "./schema";
+
+export const RANK_LABELS: Record<CardRank, { singular: string; plural: string }> = {
+  A: { singular: "As", plural: "As" },
+  "2": { singular: "2", plural: "2" },
+  "3": { singular: "3", plural: "3" },
+  "4": { singular: "4", plural: "4" },
+  "5": { singular: "5", plural: "5" },
+  "6": { singular: "6", plural: "6" },
+  "7": { singular: "7", plural: "7" },
+  "8": { singular: "8", plural: "8" },
+  "9": { singular: "9", plural: "9" },
+  "10": { singular: "10", plural: "10" },
+  J: { singular: "Valet", plural: "Valets" },
+  Q: { singular: "Dame", plural: "Dames" },
+  K: { singular: "Roi", plural: "Rois" },
+};
+
+export const SUIT_SYMBOLS: Record<CardSuit, string> = {
+  hearts: "♥",
+  diamonds: "♦",
+  clubs: "♣",
+  spades: "♠",
+};
+
+export function isRankedCard(card: Card): card is RankedCard {
+  return "rank" in card;
+}
+
+// "3 Dames", "1 As"...
+export function formatClaim(claim: Claim): string {
+  const label = RANK_LABELS[claim.rank];
+  return `${claim.count} ${claim.count > 1 ? label.plural : label.singular}`;
+}
+
+// A classic play is honest when every card is a truth card, a menteur play
+// when every card matches the announced rank.
+export function isTruthfulPlay(cards: Card[], claim?: Claim): boolean {
+  return cards.every(card =>
+    isRankedCard(card) ? card.rank === claim?.rank : card.type === "truth"
+  );
+}
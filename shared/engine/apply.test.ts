@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { GameSettings, type CardRank, type GameSettingsInput, type GameState, type GameVariant } from "../schema";
+import { applyAction } from "./apply";
+import { createRng } from "./random";
+import { actionSeed, apply, createAction, newGame } from "./test-helpers";
+import { RuleError, type GameAction } from "./types";
+
+const SEATS = ["alice", "bob", "carol"];
+
+function reject(state: GameState, action: GameAction): string {
+  const result = applyAction(state, action, createRng(actionSeed(state)));
+  if (!(result instanceof RuleError)) {
+    throw new Error(`${action.type} was accepted`);
+  }
+  return result.code;
+}
+
+// A started game with every seat ready; alice hosts and plays first
+function startGame(variant: GameVariant, settings: GameSettingsInput = {}, seats = SEATS): GameState {
+  let state = newGame(createAction({ variant, playerId: seats[0], settings: GameSettings.parse(settings) }));
+  for (const id of seats.slice(1)) {
+    state = apply(state, { type: "join", playerId: id, playerName: id, at: 0 });
+  }
+  for (const id of seats) {
+    state = apply(state, { type: "set_ready", playerId: id, ready: true, at: 0 });
+  }
+  return apply(state, { type: "start", playerId: seats[0], at: 0 });
+}
+
+function hand(state: GameState, playerId: string) {
+  return state.players.find(p => p.id === playerId)!.cards;
+}
+
+// Plays one card announced as its own rank, or as `rank` when given
+function playOne(state: GameState, playerId: string, at: number, rank?: CardRank): GameState {
+  const card = hand(state, playerId)[0];
+  const claimed: CardRank = rank ?? ("rank" in card ? card.rank : "A");
+  return apply(state, {
+    type: "play_cards",
+    playerId,
+    cardIds: [card.id],
+    claim: { rank: claimed, count: 1 },
+    at,
+  });
+}
+
+describe("validatePlay", () => {
+  it("only lets the current player play", () => {
+    const state = startGame("menteur");
+    const card = hand(state, "bob")[0];
+    expect(reject(state, { type: "play_cards", playerId: "bob", cardIds: [card.id], claim: { rank: "A", count: 1 }, at: 1 })).toBe("not_your_turn");
+  });
+
+  it("rejects cards the player does not hold, or the same card twice", () => {
+    const state = startGame("menteur");
+    const [own] = hand(state, "alice");
+    const [other] = hand(state, "bob");
+    expect(reject(state, { type: "play_cards", playerId: "alice", cardIds: [other.id], claim: { rank: "A", count: 1 }, at: 1 })).toBe("card_not_found");
+    expect(reject(state, { type: "play_cards", playerId: "alice", cardIds: [own.id, own.id], claim: { rank: "A", count: 2 }, at: 1 })).toBe("duplicate_card");
+  });
+
+  it("needs a claim matching the cards in menteur", () => {
+    const state = startGame("menteur");
+    const [first, second] = hand(state, "alice");
+    expect(reject(state, { type: "play_cards", playerId: "alice", cardIds: [first.id], at: 1 })).toBe("claim_required");
+    expect(reject(state, { type: "play_cards", playerId: "alice", cardIds: [first.id, second.id], claim: { rank: "A", count: 1 }, at: 1 })).toBe("claim_mismatch");
+  });
+
+  it("holds the next player to the announced rank", () => {
+    let state = playOne(startGame("menteur"), "alice", 1, "K");
+    state = apply(state, { type: "close_challenge", at: state.challengeDeadline! });
+    const card = hand(state, "bob")[0];
+    expect(reject(state, { type: "play_cards", playerId: "bob", cardIds: [card.id], claim: { rank: "Q", count: 1 }, at: 10_000 })).toBe("wrong_rank");
+  });
+
+  it("plays one card at a time in classic", () => {
+    const state = startGame("classic");
+    const [first, second] = hand(state, "alice");
+    expect(reject(state, { type: "play_cards", playerId: "alice", cardIds: [first.id, second.id], at: 1 })).toBe("invalid_card_count");
+  });
+});
+
+describe("validateAccusation", () => {
+  it("needs a play to accuse", () => {
+    const state = startGame("menteur");
+    expect(reject(state, { type: "accuse", playerId: "bob", targetId: "alice", at: 1 })).toBe("nothing_to_accuse");
+  });
+
+  it("refuses self accusations and late calls", () => {
+    const state = playOne(startGame("menteur"), "alice", 1);
+    expect(reject(state, { type: "accuse", playerId: "alice", targetId: "alice", at: 2 })).toBe("self_accusation");
+    expect(reject(state, { type: "accuse", playerId: "bob", targetId: "alice", at: state.challengeDeadline! + 1 })).toBe("challenge_closed");
+  });
+
+  it("gives the pile to the liar", () => {
+    let state = startGame("menteur");
+    const card = hand(state, "alice")[0];
+    const lie = "rank" in card && card.rank === "A" ? "K" : "A";
+    state = playOne(state, "alice", 1, lie);
+    state = apply(state, { type: "accuse", playerId: "bob", targetId: "alice", at: 2 });
+
+    expect(state.phase).toBe("revelation");
+    expect(hand(state, "alice")).toHaveLength(7);
+    expect(hand(state, "bob")).toHaveLength(7);
+    expect(state.centerPile).toHaveLength(0);
+  });
+});
+
+describe("turn order", () => {
+  it("passes the turn to the next seat once the challenge window closes", () => {
+    let state = playOne(startGame("menteur"), "alice", 1);
+    expect(state.phase).toBe("accusation");
+    state = apply(state, { type: "close_challenge", at: state.challengeDeadline! });
+    expect(state.phase).toBe("playing");
+    expect(state.currentPlayerId).toBe("bob");
+  });
+
+  it("skips disconnected seats", () => {
+    let state = apply(startGame("menteur"), { type: "disconnect", playerId: "bob", at: 1 });
+    state = playOne(state, "alice", 2);
+    state = apply(state, { type: "close_challenge", at: state.challengeDeadline! });
+    expect(state.currentPlayerId).toBe("carol");
+  });
+
+  it("times out a turn only after its deadline", () => {
+    const state = startGame("menteur");
+    expect(reject(state, { type: "turn_timeout", playerId: "alice", at: state.turnDeadline! - 1 })).toBe("turn_not_expired");
+    const next = apply(state, { type: "turn_timeout", playerId: "alice", at: state.turnDeadline! });
+    expect(next.players.find(p => p.id === "alice")!.timeouts).toBe(1);
+  });
+});
+
+describe("scoring", () => {
+  it("scores the cards left in hand when a player empties theirs", () => {
+    let state = startGame("classic", { handSize: 1 });
+    const card = hand(state, "alice")[0];
+    state = apply(state, { type: "play_cards", playerId: "alice", cardIds: [card.id], at: 1 });
+
+    expect(state.phase).toBe("finished");
+    expect(state.match.scores).toEqual({ alice: 0, bob: 1, carol: 1 });
+    expect(state.match.winnerId).toBe("alice");
+  });
+
+  it("moves to an intermission between the rounds of a match", () => {
+    let state = startGame("classic", { handSize: 1, rounds: 2 });
+    state = apply(state, { type: "play_cards", playerId: "alice", cardIds: [hand(state, "alice")[0].id], at: 1 });
+    expect(state.phase).toBe("intermission");
+
+    state = apply(state, { type: "next_round", playerId: "alice", at: 2 });
+    expect(state.match.round).toBe(2);
+    expect(state.currentPlayerId).toBe("bob");
+  });
+});
+
+describe("actions that change nothing", () => {
+  function unchanged(state: GameState, action: GameAction) {
+    const result = applyAction(state, action, createRng(actionSeed(state)));
+    expect(result).toEqual({ state, events: [] });
+    expect(result instanceof RuleError ? undefined : result.state).toBe(state);
+  }
+
+  it("keeps the version and logs nothing", () => {
+    const started = startGame("menteur");
+    unchanged(started, { type: "reconnect", playerId: "bob", at: 1 });
+    unchanged(started, { type: "set_presence", playerId: "bob", presence: "online", at: 1 });
+
+    const dropped = apply(started, { type: "disconnect", playerId: "bob", at: 1 });
+    expect(dropped.version).toBe(started.version + 1);
+    expect(dropped.players.find(p => p.id === "bob")!.disconnectedAt).toBe(1);
+    unchanged(dropped, { type: "disconnect", playerId: "bob", at: 2 });
+    unchanged(dropped, { type: "set_presence", playerId: "bob", presence: "idle", at: 2 });
+  });
+
+  it("ignores a second continue from the same player", () => {
+    let state = playOne(startGame("menteur"), "alice", 1);
+    state = apply(state, { type: "accuse", playerId: "bob", targetId: "alice", at: 2 });
+    state = apply(state, { type: "continue", playerId: "bob", at: 3 });
+    expect(state.revelationAcks).toEqual(["bob"]);
+    unchanged(state, { type: "continue", playerId: "bob", at: 4 });
+  });
+
+  it("ignores a ready state the player already has", () => {
+    unchanged(newGame(), { type: "set_ready", playerId: "alice", ready: false, at: 1 });
+  });
+});
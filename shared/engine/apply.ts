@@ -0,0 +1,782 @@
+import { formatClaim, isRankedCard, isTruthfulPlay } from "../cards";
+import type { BotStrategyName, Card, GameEvent, GameState, Player } from "../schema";
+import { createDeck, dealRoundRobin, shuffle } from "./deck";
+import { getNextPlayerId, isAttending, isConnected, validateAccusation, validatePlay, validateSettings, validateStart } from "./rules";
+import { RuleError, type ActionOf, type CreateAction, type EngineResult, type GameAction, type Rng } from "./types";
+
+// Collects the log entries produced while applying one action. Entries are
+// numbered after the version the action produces, never from the game's
+// random draws, which everyone would otherwise get a sample of.
+class EventLog {
+  readonly events: GameEvent[] = [];
+
+  constructor(private state: GameState, private version: number, private at: number) {}
+
+  push(event: Omit<GameEvent, "id" | "timestamp">) {
+    const entry: GameEvent = { ...event, id: `${this.version}-${this.events.length}`, timestamp: this.at };
+    this.state.events.push(entry);
+    this.events.push(entry);
+  }
+}
+
+// What a handler returns for an action that leaves the game as it was, so
+// the action costs no version and no log entry
+const UNCHANGED = Symbol("unchanged");
+type Outcome = RuleError | typeof UNCHANGED | void;
+
+// Seats start empty; hands are dealt when the game starts. Bots are always
+// ready.
+function seatPlayer(id: string, name: string, bot?: BotStrategyName): Player {
+  return {
+    id,
+    name,
+    cards: [],
+    cardCount: 0,
+    avatar: name.charAt(0).toUpperCase(),
+    presence: "online",
+    isReady: !!bot,
+    timeouts: 0,
+    bot,
+  };
+}
+
+// Draws from the draw pile. When it runs out, the center pile (minus the
+// cards still on display from the last play) is shuffled back in; if there
+// is still not enough, the player simply gets fewer cards.
+function drawCards(state: GameState, player: Player, count: number, rng: Rng): Card[] {
+  const drawn: Card[] = [];
+  while (drawn.length < count) {
+    if (state.drawPile.length === 0) {
+      const onDisplay = new Set(state.lastPlayedCards.map(c => c.id));
+      const recycled = state.centerPile.filter(c => !onDisplay.has(c.id));
+      if (recycled.length === 0) {
+        break;
+      }
+      state.centerPile = state.centerPile.filter(c => onDisplay.has(c.id));
+      state.drawPile = shuffle(recycled, rng);
+    }
+    drawn.push(state.drawPile.pop()!);
+  }
+
+  player.cards.push(...drawn);
+  player.cardCount = player.cards.length;
+  return drawn;
+}
+
+// Seats reported away only get this long to play, however long the turn
+// timer is
+const AWAY_TURN_MS = 10 * 1000;
+
+// Hands the turn to a player and starts their clock
+function startTurn(state: GameState, playerId: string, at: number) {
+  const player = state.players.find(p => p.id === playerId);
+  const timer = state.settings.turnTimer * 1000;
+  state.currentPlayerId = playerId;
+  state.turnDeadline = at + (player?.presence === "away" ? Math.min(timer, AWAY_TURN_MS) : timer);
+}
+
+export function createGame(action: CreateAction, rng: Rng): EngineResult | RuleError {
+  const error = validateSettings(action.variant, action.settings);
+  if (error) {
+    return error;
+  }
+
+  const state: GameState = {
+    id: action.gameId,
+    variant: action.variant,
+    phase: "waiting",
+    hostId: action.playerId,
+    settings: action.settings,
+    seed: action.seed,
+    version: 1,
+    players: [seatPlayer(action.playerId, action.playerName)],
+    currentPlayerId: action.playerId,
+    drawPile: [],
+    centerPile: [],
+    lastPlayedCards: [],
+    revealedCards: [],
+    events: [],
+    revelationAcks: [],
+    match: { round: 0, scores: {}, results: [] },
+  };
+
+  const log = new EventLog(state, state.version, action.at);
+  log.push({
+    type: "join",
+    playerId: action.playerId,
+    playerName: action.playerName,
+    message: `${action.playerName} a créé la partie`,
+  });
+
+  return { state, events: log.events };
+}
+
+// Applies one action to a copy of the state. The input state is never
+// mutated, and the same state, action and random sequence always give the
+// same result. An action that changes nothing gives back the input state
+// itself, with no events.
+export function applyAction(state: GameState, action: GameAction, rng: Rng): EngineResult | RuleError {
+  const next = structuredClone(state);
+  const log = new EventLog(next, next.version + 1, action.at);
+
+  const outcome = ((): Outcome => {
+    switch (action.type) {
+      case "join":
+        return applyJoin(next, action, log);
+      case "leave":
+        return applyLeave(next, action, log);
+      case "set_ready":
+        return applySetReady(next, action, log);
+      case "update_settings":
+        return applyUpdateSettings(next, action, log);
+      case "add_bot":
+        return applyAddBot(next, action, log);
+      case "remove_bot":
+        return applyRemoveBot(next, action, log);
+      case "start":
+        return applyStart(next, action, rng, log);
+      case "next_round":
+        return applyNextRound(next, action, rng, log);
+      case "rematch":
+        return applyRematch(next, action, log);
+      case "play_cards":
+        return applyPlayCards(next, action, log);
+      case "accuse":
+        return applyAccuse(next, action, rng, log);
+      case "continue":
+        return applyContinue(next, action);
+      case "turn_timeout":
+        return applyTurnTimeout(next, action, rng, log);
+      case "close_challenge":
+        return applyCloseChallenge(next, action, log);
+      case "close_revelation":
+        return applyCloseRevelation(next, action, log);
+      case "disconnect":
+        return applyDisconnect(next, action, log);
+      case "reconnect":
+        return applyReconnect(next, action, log);
+      case "set_presence":
+        return applySetPresence(next, action);
+    }
+  })();
+  if (outcome === UNCHANGED) {
+    return { state, events: [] };
+  }
+  if (outcome) {
+    return outcome;
+  }
+  next.version += 1;
+
+  // Acks can also complete when someone leaves or drops mid-revelation
+  if (next.phase === "revelation" && everyoneAcknowledged(next)) {
+    endRevelation(next, action.at, log);
+  }
+
+  // The clocks only run while someone is expected to act
+  if (next.phase !== "playing") {
+    next.turnDeadline = undefined;
+  }
+  if (next.phase !== "accusation") {
+    next.challengeDeadline = undefined;
+  }
+  if (next.phase !== "revelation") {
+    next.revelationDeadline = undefined;
+  }
+
+  return { state: next, events: log.events };
+}
+
+function applyJoin(state: GameState, action: ActionOf<"join">, log: EventLog): RuleError | void {
+  if (state.phase === "finished") {
+    return new RuleError("game_finished", "Game is finished");
+  }
+  if (state.phase !== "waiting") {
+    return new RuleError("game_started", "Game has already started");
+  }
+  if (state.players.length >= state.settings.maxPlayers) {
+    return new RuleError("game_full", "Game is full");
+  }
+  if (state.players.some(p => p.id === action.playerId)) {
+    return new RuleError("already_joined", "Player already joined");
+  }
+
+  state.players.push(seatPlayer(action.playerId, action.playerName));
+  log.push({
+    type: "join",
+    playerId: action.playerId,
+    playerName: action.playerName,
+    message: `${action.playerName} a rejoint la partie`,
+  });
+}
+
+function applyAddBot(state: GameState, action: ActionOf<"add_bot">, log: EventLog): RuleError | void {
+  if (state.phase !== "waiting") {
+    return new RuleError("game_started", "Game has already started");
+  }
+  if (state.hostId !== action.playerId) {
+    return new RuleError("not_host", "Only the host can add bots");
+  }
+  if (state.players.length >= state.settings.maxPlayers) {
+    return new RuleError("game_full", "Game is full");
+  }
+  if (state.players.some(p => p.id === action.botId)) {
+    return new RuleError("already_joined", "Player already joined");
+  }
+
+  state.players.push(seatPlayer(action.botId, action.botName, action.strategy));
+  log.push({
+    type: "join",
+    playerId: action.botId,
+    playerName: action.botName,
+    message: `${action.botName} (bot) a rejoint la partie`,
+  });
+}
+
+function applyRemoveBot(state: GameState, action: ActionOf<"remove_bot">, log: EventLog): RuleError | void {
+  if (state.phase !== "waiting") {
+    return new RuleError("game_started", "Game has already started");
+  }
+  if (state.hostId !== action.playerId) {
+    return new RuleError("not_host", "Only the host can remove bots");
+  }
+  const bot = state.players.find(p => p.id === action.botId);
+  if (!bot) {
+    return new RuleError("player_not_found", "Player not found in game");
+  }
+  if (!bot.bot) {
+    return new RuleError("not_a_bot", "Only bots can be removed by the host");
+  }
+
+  removePlayer(state, bot, action.at);
+  log.push({
+    type: "leave",
+    playerId: bot.id,
+    playerName: bot.name,
+    message: `${bot.name} a quitté la partie`,
+  });
+}
+
+function applySetReady(state: GameState, action: ActionOf<"set_ready">, log: EventLog): Outcome {
+  if (state.phase !== "waiting") {
+    return new RuleError("game_started", "Game has already started");
+  }
+  const player = state.players.find(p => p.id === action.playerId);
+  if (!player) {
+    return new RuleError("player_not_found", "Player not found in game");
+  }
+  if (player.isReady === action.ready) {
+    return UNCHANGED;
+  }
+
+  player.isReady = action.ready;
+  log.push({
+    type: "ready",
+    playerId: player.id,
+    playerName: player.name,
+    message: action.ready ? `${player.name} est prêt` : `${player.name} n'est plus prêt`,
+  });
+}
+
+function applyUpdateSettings(state: GameState, action: ActionOf<"update_settings">, log: EventLog): RuleError | void {
+  if (state.phase !== "waiting") {
+    return new RuleError("game_started", "Settings are locked once the game has started");
+  }
+  if (state.hostId !== action.playerId) {
+    return new RuleError("not_host", "Only the host can change the settings");
+  }
+  const error = validateSettings(state.variant, action.settings, state.players.length);
+  if (error) {
+    return error;
+  }
+
+  // Everyone confirms again under the new rules
+  state.settings = action.settings;
+  for (const player of state.players) {
+    player.isReady = !!player.bot;
+  }
+  const host = state.players.find(p => p.id === action.playerId)!;
+  log.push({
+    type: "settings",
+    playerId: host.id,
+    playerName: host.name,
+    message: `${host.name} a modifié les règles de la partie`,
+  });
+}
+
+function applyStart(state: GameState, action: ActionOf<"start">, rng: Rng, log: EventLog): RuleError | void {
+  const error = validateStart(state, action.playerId);
+  if (error) {
+    return error;
+  }
+
+  state.match.scores = Object.fromEntries(state.players.map(p => [p.id, 0]));
+  state.match.results = [];
+  state.match.round = 0;
+  dealRound(state, rng, action.at);
+  log.push({
+    type: "game_start",
+    playerId: "",
+    playerName: "",
+    message: state.settings.rounds > 1
+      ? `Le match commence avec ${state.players.length} joueurs : manche 1/${state.settings.rounds}`
+      : `La partie commence avec ${state.players.length} joueurs !`,
+  });
+}
+
+function applyNextRound(state: GameState, action: ActionOf<"next_round">, rng: Rng, log: EventLog): RuleError | void {
+  if (state.phase !== "intermission") {
+    return new RuleError("wrong_phase", "No round to start");
+  }
+  if (state.hostId !== action.playerId) {
+    return new RuleError("not_host", "Only the host can start the next round");
+  }
+
+  dealRound(state, rng, action.at);
+  log.push({
+    type: "game_start",
+    playerId: "",
+    playerName: "",
+    message: `La manche ${state.match.round}/${state.settings.rounds} commence`,
+  });
+}
+
+function applyRematch(state: GameState, action: ActionOf<"rematch">, log: EventLog): RuleError | void {
+  if (state.phase !== "finished") {
+    return new RuleError("match_not_finished", "The match is not over yet");
+  }
+  if (state.hostId !== action.playerId) {
+    return new RuleError("not_host", "Only the host can call a rematch");
+  }
+
+  // Back to the waiting room, same seats and room code
+  for (const player of state.players) {
+    player.cards = [];
+    player.cardCount = 0;
+    player.isReady = !!player.bot;
+    player.timeouts = 0;
+  }
+  clearTable(state);
+  state.drawPile = [];
+  state.match = { round: 0, scores: {}, results: [] };
+  state.seed = action.seed;
+  state.phase = "waiting";
+  state.currentPlayerId = state.hostId;
+  log.push({
+    type: "rematch",
+    playerId: action.playerId,
+    playerName: state.players.find(p => p.id === action.playerId)?.name ?? "",
+    message: "Revanche ! Tout le monde retourne en salle d'attente",
+  });
+}
+
+// Deals a fresh deck for the next round of the match. Starting seats rotate
+// from one round to the next.
+function dealRound(state: GameState, rng: Rng, at: number) {
+  state.match.round += 1;
+
+  const deck = createDeck(state.variant, state.settings.deck, rng, state.match.round);
+  const hands = dealRoundRobin(deck, state.players.length, state.settings.handSize);
+  state.players.forEach((player, index) => {
+    player.cards = hands[index];
+    player.cardCount = player.cards.length;
+    player.timeouts = 0;
+  });
+  state.drawPile = deck;
+  clearTable(state);
+
+  const starter = state.players[(state.match.round - 1) % state.players.length];
+  state.phase = "playing";
+  startTurn(state, starter.id, at);
+}
+
+function clearTable(state: GameState) {
+  state.centerPile = [];
+  state.lastPlayedCards = [];
+  state.lastPlayerId = undefined;
+  state.lastClaim = undefined;
+  state.requiredRank = undefined;
+  state.revealedCards = [];
+  state.revelationAcks = [];
+  state.accusingPlayerId = undefined;
+}
+
+// Scores the round the given player just won: every card still in hand is
+// a penalty point. Ends the match after its last round.
+function endRound(state: GameState, winner: Player, log: EventLog) {
+  const { match, settings } = state;
+  const penalties = Object.fromEntries(state.players.map(p => [p.id, p.cards.length]));
+  for (const [playerId, points] of Object.entries(penalties)) {
+    match.scores[playerId] = (match.scores[playerId] ?? 0) + points;
+  }
+  match.results.push({ round: match.round, winnerId: winner.id, penalties });
+
+  if (match.round < settings.rounds) {
+    state.phase = "intermission";
+    log.push({
+      type: "round_end",
+      playerId: winner.id,
+      playerName: winner.name,
+      message: `${winner.name} remporte la manche ${match.round}/${settings.rounds}`,
+    });
+    return;
+  }
+
+  // Lowest score wins; ties go to whoever won more rounds, then seat order
+  const roundsWon = (playerId: string) => match.results.filter(r => r.winnerId === playerId).length;
+  const [matchWinner] = [...state.players].sort((a, b) =>
+    (match.scores[a.id] ?? 0) - (match.scores[b.id] ?? 0) || roundsWon(b.id) - roundsWon(a.id)
+  );
+  match.winnerId = matchWinner.id;
+  state.phase = "finished";
+  log.push({
+    type: "match_end",
+    playerId: matchWinner.id,
+    playerName: matchWinner.name,
+    message: settings.rounds > 1
+      ? `${matchWinner.name} remporte le match !`
+      : `${matchWinner.name} a gagné la partie !`,
+  });
+}
+
+function applyLeave(state: GameState, action: ActionOf<"leave">, log: EventLog): RuleError | void {
+  const player = state.players.find(p => p.id === action.playerId);
+  if (!player) {
+    return new RuleError("player_not_found", "Player not found in game");
+  }
+
+  removePlayer(state, player, action.at);
+  log.push({
+    type: "leave",
+    playerId: player.id,
+    playerName: player.name,
+    message: `${player.name} a quitté la partie`,
+  });
+}
+
+function removePlayer(state: GameState, player: Player, at: number) {
+  if (state.currentPlayerId === player.id && state.players.length > 1) {
+    startTurn(state, getNextPlayerId(state, player.id)!, at);
+  }
+  state.players = state.players.filter(p => p.id !== player.id);
+  // Their hand goes back under the draw pile so no card leaves the game
+  state.drawPile.unshift(...player.cards);
+
+  // The oldest remaining human seat inherits the host role
+  const humans = state.players.filter(p => !p.bot);
+  if (state.hostId === player.id && humans.length > 0) {
+    state.hostId = humans[0].id;
+    if (state.phase === "waiting") {
+      state.currentPlayerId = state.hostId;
+    }
+  }
+
+  // End game if not enough players; a waiting room only closes once no
+  // human is left, and bots do not play on their own
+  if (humans.length === 0 || (state.phase !== "waiting" && state.players.length < state.settings.minPlayers)) {
+    state.phase = "finished";
+  }
+}
+
+function applyPlayCards(state: GameState, action: ActionOf<"play_cards">, log: EventLog): RuleError | void {
+  const player = state.players.find(p => p.id === action.playerId);
+  const error = validatePlay(state, action, player?.cards ?? []);
+  if (error || !player) {
+    return error;
+  }
+
+  player.timeouts = 0;
+  playCards(state, player, action, log);
+}
+
+function playCards(
+  state: GameState,
+  player: Player,
+  action: Pick<ActionOf<"play_cards">, "cardIds" | "claim" | "at">,
+  log: EventLog,
+) {
+  const claim = state.variant === "menteur" ? action.claim : undefined;
+  const playedCards = action.cardIds.map(id => player.cards.find(c => c.id === id)!);
+  player.cards = player.cards.filter(c => !action.cardIds.includes(c.id));
+  player.cardCount = player.cards.length;
+
+  state.centerPile.push(...playedCards);
+  state.lastPlayedCards = playedCards;
+  state.lastClaim = claim;
+  state.lastPlayerId = player.id;
+  if (claim) {
+    state.requiredRank = claim.rank;
+  }
+
+  const lastCard = player.cards.length === 0;
+  log.push({
+    type: "card_played",
+    playerId: player.id,
+    playerName: player.name,
+    claim,
+    message: lastCard
+      ? `${player.name} a posé sa dernière carte !`
+      : claim
+        ? `${player.name} annonce ${formatClaim(claim)}`
+        : `${player.name} a joué une carte`,
+  });
+
+  // Check win condition
+  if (lastCard && !state.settings.lastCardChallengeable) {
+    endRound(state, player, log);
+    return;
+  }
+
+  // The next player waits until the challenge window closes
+  state.phase = "accusation";
+  state.currentPlayerId = getNextPlayerId(state, player.id)!;
+  state.challengeDeadline = action.at + state.settings.challengeWindow * 1000;
+}
+
+function applyAccuse(state: GameState, action: ActionOf<"accuse">, rng: Rng, log: EventLog): RuleError | void {
+  const error = validateAccusation(state, action);
+  if (error) {
+    return error;
+  }
+  if (state.challengeDeadline && action.at > state.challengeDeadline) {
+    return new RuleError("challenge_closed", "The challenge window is closed");
+  }
+  if (state.lastPlayedCards.length === 0) {
+    return new RuleError("nothing_to_accuse", "No card to accuse");
+  }
+
+  const accusingPlayer = state.players.find(p => p.id === action.playerId)!;
+  const accusedPlayer = state.players.find(p => p.id === action.targetId)!;
+  accusingPlayer.timeouts = 0;
+
+  state.phase = "revelation";
+  state.revealedCards = state.lastPlayedCards;
+  state.revelationAcks = [];
+  state.revelationDeadline = action.at + state.settings.revelationDelay * 1000;
+  state.accusingPlayerId = accusingPlayer.id;
+
+  // Determine penalty
+  const wasLie = !isTruthfulPlay(state.lastPlayedCards, state.lastClaim);
+  const penaltyPlayer = wasLie ? accusedPlayer : accusingPlayer;
+
+  // A challenge closes the current claim sequence
+  state.requiredRank = undefined;
+
+  log.push({
+    type: "accusation",
+    playerId: accusingPlayer.id,
+    playerName: accusingPlayer.name,
+    targetId: accusedPlayer.id,
+    targetName: accusedPlayer.name,
+    cardType: state.variant === "classic" ? (wasLie ? "lie" : "truth") : undefined,
+    claim: state.lastClaim,
+    message: `${accusingPlayer.name} a accusé ${accusedPlayer.name} - ${wasLie ? "Mensonge révélé!" : "Vérité révélée!"}`,
+  });
+
+  if (state.settings.challengePenalty !== "fixed") {
+    const pickedUp = state.centerPile;
+    penaltyPlayer.cards.push(...pickedUp);
+    penaltyPlayer.cardCount = penaltyPlayer.cards.length;
+    state.centerPile = [];
+    log.push({
+      type: "penalty",
+      playerId: penaltyPlayer.id,
+      playerName: penaltyPlayer.name,
+      cardCount: pickedUp.length,
+      message: `${penaltyPlayer.name} ramasse la pile (${pickedUp.length} cartes)`,
+    });
+  }
+  if (state.settings.challengePenalty !== "pile") {
+    const drawn = drawCards(state, penaltyPlayer, state.settings.penaltySize, rng);
+    log.push({
+      type: "penalty",
+      playerId: penaltyPlayer.id,
+      playerName: penaltyPlayer.name,
+      cardCount: drawn.length,
+      message: `${penaltyPlayer.name} pioche ${drawn.length} cartes de pénalité`,
+    });
+  }
+}
+
+// Hands the turn to the waiting player, or the next one if they dropped
+function resumePlay(state: GameState, at: number) {
+  const next = state.players.find(p => p.id === state.currentPlayerId);
+  const playerId = next && isConnected(next) ? next.id : getNextPlayerId(state, state.currentPlayerId)!;
+  state.phase = "playing";
+  startTurn(state, playerId, at);
+}
+
+// Once a play can no longer be challenged, a player who emptied their hand
+// with it wins the round
+function settlePlay(state: GameState, at: number, log: EventLog) {
+  const winner = state.players.find(p => p.id === state.lastPlayerId && p.cards.length === 0);
+  if (winner) {
+    endRound(state, winner, log);
+  } else {
+    resumePlay(state, at);
+  }
+}
+
+function endRevelation(state: GameState, at: number, log: EventLog) {
+  settlePlay(state, at, log);
+  // The challenged play is settled and can no longer be accused
+  state.revealedCards = [];
+  state.revelationAcks = [];
+  state.accusingPlayerId = undefined;
+  state.lastPlayedCards = [];
+  state.lastPlayerId = undefined;
+  state.lastClaim = undefined;
+}
+
+// The table moves on once every player at the table has seen the cards;
+// nobody waits for a seat that is away or disconnected
+function everyoneAcknowledged(state: GameState): boolean {
+  return state.players.every(p => !isAttending(p) || state.revelationAcks.includes(p.id));
+}
+
+function applyContinue(state: GameState, action: ActionOf<"continue">): Outcome {
+  if (state.phase !== "revelation") {
+    return new RuleError("wrong_phase", "Nothing to continue");
+  }
+  if (!state.players.some(p => p.id === action.playerId)) {
+    return new RuleError("not_seated", "Only seated players can continue");
+  }
+
+  if (state.revelationAcks.includes(action.playerId)) {
+    return UNCHANGED;
+  }
+  state.revelationAcks.push(action.playerId);
+}
+
+function applyCloseRevelation(state: GameState, action: ActionOf<"close_revelation">, log: EventLog): RuleError | void {
+  if (state.phase !== "revelation") {
+    return new RuleError("wrong_phase", "Nothing to continue");
+  }
+  if (!state.revelationDeadline || action.at < state.revelationDeadline) {
+    return new RuleError("revelation_not_expired", "The revelation is still on display");
+  }
+
+  endRevelation(state, action.at, log);
+}
+
+function applyCloseChallenge(state: GameState, action: ActionOf<"close_challenge">, log: EventLog): RuleError | void {
+  if (state.phase !== "accusation") {
+    return new RuleError("wrong_phase", "No challenge window is open");
+  }
+  if (!state.challengeDeadline || action.at < state.challengeDeadline) {
+    return new RuleError("challenge_not_expired", "The challenge window is still open");
+  }
+
+  settlePlay(state, action.at, log);
+}
+
+function applyTurnTimeout(state: GameState, action: ActionOf<"turn_timeout">, rng: Rng, log: EventLog): RuleError | void {
+  if (state.phase !== "playing" || state.currentPlayerId !== action.playerId) {
+    return new RuleError("wrong_phase", "This turn is already over");
+  }
+  if (!state.turnDeadline || action.at < state.turnDeadline) {
+    return new RuleError("turn_not_expired", "The turn has not timed out yet");
+  }
+
+  const player = state.players.find(p => p.id === action.playerId)!;
+  const policy = state.settings.timeoutPolicy;
+  player.timeouts += 1;
+
+  log.push({
+    type: "timeout",
+    playerId: player.id,
+    playerName: player.name,
+    message: `${player.name} n'a pas joué à temps`,
+  });
+
+  if (policy.action === "auto_play" && player.cards.length > 0) {
+    const card = player.cards[Math.floor(rng() * player.cards.length)];
+    const rank = state.requiredRank ?? (isRankedCard(card) ? card.rank : undefined);
+    playCards(state, player, {
+      cardIds: [card.id],
+      claim: rank ? { rank, count: 1 } : undefined,
+      at: action.at,
+    }, log);
+  } else {
+    if (policy.action === "penalty") {
+      const drawn = drawCards(state, player, state.settings.penaltySize, rng);
+      log.push({
+        type: "penalty",
+        playerId: player.id,
+        playerName: player.name,
+        cardCount: drawn.length,
+        message: `${player.name} pioche ${drawn.length} cartes de pénalité`,
+      });
+    }
+    startTurn(state, getNextPlayerId(state, player.id)!, action.at);
+  }
+
+  // A player whose auto-played card won the game is not kicked
+  if (policy.kickAfter > 0 && player.timeouts >= policy.kickAfter && player.cards.length > 0) {
+    removePlayer(state, player, action.at);
+    log.push({
+      type: "leave",
+      playerId: player.id,
+      playerName: player.name,
+      message: `${player.name} a été exclu après ${player.timeouts} tours sans jouer`,
+    });
+  }
+}
+
+function applyDisconnect(state: GameState, action: ActionOf<"disconnect">, log: EventLog): Outcome {
+  const player = state.players.find(p => p.id === action.playerId);
+  if (!player) {
+    return new RuleError("player_not_found", "Player not found in game");
+  }
+  if (!isConnected(player)) {
+    return UNCHANGED;
+  }
+
+  player.presence = "disconnected";
+  player.disconnectedAt = action.at;
+  log.push({
+    type: "leave",
+    playerId: player.id,
+    playerName: player.name,
+    message: `${player.name} s'est déconnecté`,
+  });
+
+  // Nobody waits for a seat that is not there
+  if (state.phase === "playing" && state.currentPlayerId === player.id) {
+    startTurn(state, getNextPlayerId(state, player.id)!, action.at);
+  }
+}
+
+function applyReconnect(state: GameState, action: ActionOf<"reconnect">, log: EventLog): Outcome {
+  const player = state.players.find(p => p.id === action.playerId);
+  if (!player) {
+    return new RuleError("player_not_found", "Player not found in game");
+  }
+  if (isConnected(player)) {
+    return UNCHANGED;
+  }
+
+  player.presence = "online";
+  player.disconnectedAt = undefined;
+  log.push({
+    type: "join",
+    playerId: player.id,
+    playerName: player.name,
+    message: `${player.name} est de retour`,
+  });
+}
+
+function applySetPresence(state: GameState, action: ActionOf<"set_presence">): Outcome {
+  const player = state.players.find(p => p.id === action.playerId);
+  if (!player) {
+    return new RuleError("player_not_found", "Player not found in game");
+  }
+  // A dropped seat comes back through "reconnect"
+  if (!isConnected(player) || player.presence === action.presence) {
+    return UNCHANGED;
+  }
+
+  player.presence = action.presence;
+  if (action.presence === "away" && state.phase === "playing" && state.currentPlayerId === player.id && state.turnDeadline) {
+    state.turnDeadline = Math.min(state.turnDeadline, action.at + AWAY_TURN_MS);
+  }
+}
@@ -0,0 +1,62 @@
+import { CardRank, CardSuit, type Card, type DeckComposition, type GameVariant } from "../schema";
+import type { Rng } from "./types";
+
+// Fisher-Yates, in place
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+export function countDeckCards(variant: GameVariant, composition: DeckComposition): number {
+  return variant === "menteur"
+    ? composition.packs * CardSuit.options.length * CardRank.options.length
+    : composition.truthCards + composition.lieCards;
+}
+
+// Builds and shuffles the single deck a round is played with. Ids are handed
+// out after the shuffle, in deck order, so a card's id says nothing about
+// the card or about the random draws that placed it.
+export function createDeck(variant: GameVariant, composition: DeckComposition, rng: Rng, round: number): Card[] {
+  const deck: Card[] = [];
+
+  if (variant === "menteur") {
+    // Standard 52-card packs
+    for (let pack = 0; pack < composition.packs; pack++) {
+      for (const suit of CardSuit.options) {
+        for (const rank of CardRank.options) {
+          deck.push({ id: "", rank, suit });
+        }
+      }
+    }
+  } else {
+    for (let i = 0; i < composition.truthCards; i++) {
+      deck.push({ id: "", type: "truth" });
+    }
+    for (let i = 0; i < composition.lieCards; i++) {
+      deck.push({ id: "", type: "lie" });
+    }
+  }
+
+  shuffle(deck, rng).forEach((card, index) => {
+    card.id = `${round}-${index}`;
+  });
+  return deck;
+}
+
+// Deals cards one at a time to each seat in turn, like at a real table.
+// Takes the cards off the top (end) of the deck.
+export function dealRoundRobin(deck: Card[], seats: number, handSize: number): Card[][] {
+  const hands: Card[][] = Array.from({ length: seats }, () => []);
+  for (let round = 0; round < handSize; round++) {
+    for (const hand of hands) {
+      const card = deck.pop();
+      if (card) {
+        hand.push(card);
+      }
+    }
+  }
+  return hands;
+}
@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./rules";
+export { createGame, applyAction } from "./apply";
+export { createDeck, countDeckCards, dealRoundRobin, shuffle } from "./deck";
+export { createRng, deriveSeed, randomSeed } from "./random";
+export { replayGame, rebuildGame, finishedRecords } from "./replay";
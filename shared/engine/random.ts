@@ -0,0 +1,58 @@
+import type { Rng } from "./types";
+
+// Seeds are integers of up to 53 bits, the widest a number holds exactly
+const HIGH_WORD = 4294967296;
+
+// Murmur3's finalizer: spreads every bit of a word over the whole word
+function mix32(x: number): number {
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  return (x ^ (x >>> 16)) >>> 0;
+}
+
+// sfc32: 128 bits of state, fast and good enough for shuffling cards. Its
+// first outputs are dropped so every word of the seed shows in the draws.
+function sfc32(a: number, b: number, c: number, d: number): Rng {
+  const next = () => {
+    d = (d + 1) | 0;
+    const t = (((a + b) | 0) + d) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / HIGH_WORD;
+  };
+  for (let i = 0; i < 15; i++) {
+    next();
+  }
+  return next;
+}
+
+function seedWords(seed: number): [number, number] {
+  return [seed >>> 0, Math.floor(seed / HIGH_WORD) >>> 0];
+}
+
+function draw53(rng: Rng): number {
+  return Math.floor(rng() * 0x200000) * HIGH_WORD + Math.floor(rng() * HIGH_WORD);
+}
+
+// The same seed always yields the same sequence, which is what makes games
+// replayable. The seed is too wide to be found back by trying them all
+// against the cards a player holds.
+export function createRng(seed: number): Rng {
+  const [low, high] = seedWords(seed);
+  return sfc32(mix32(low), mix32(high ^ 0x9e3779b9), mix32(low ^ high ^ 0x6d2b79f5), 1);
+}
+
+// Seed for the random draws of a game's action number `index`, counting the
+// create action as 0. A game seed fixes every shuffle and draw of the game.
+export function deriveSeed(gameSeed: number, index: number): number {
+  const [low, high] = seedWords(gameSeed);
+  return draw53(sfc32(mix32(low), mix32(high ^ 0x9e3779b9), mix32(index ^ 0x27d4eb2f), 2));
+}
+
+// From the platform's cryptographic source, so seeds cannot be guessed from
+// one another
+export function randomSeed(): number {
+  return draw53(() => crypto.getRandomValues(new Uint32Array(1))[0] / HIGH_WORD);
+}
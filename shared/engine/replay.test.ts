@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { GameSettings, type GameState } from "../schema";
+import { applyAction } from "./apply";
+import { createRng, deriveSeed } from "./random";
+import { finishedRecords, replayGame } from "./replay";
+import { actionSeed, apply as applyOne, createAction, newGame } from "./test-helpers";
+import { RuleError, type ActionRecord, type GameAction } from "./types";
+
+const SEATS = ["alice", "bob", "carol"];
+
+// Plays a game the way the server does, recording every accepted action
+// with the seed its draws came from
+function recordGame(seed: number, settings = GameSettings.parse({ handSize: 3, rounds: 2 })) {
+  const create = createAction({ gameId: "replay", playerId: SEATS[0], settings, seed });
+  let state = newGame(create);
+  const records: ActionRecord[] = [{ seq: 0, seed: deriveSeed(seed, 0), action: create }];
+  const states: GameState[] = [state];
+  const apply = (action: GameAction) => {
+    records.push({ seq: records.length, seed: actionSeed(state), action });
+    state = applyOne(state, action);
+    states.push(state);
+  };
+
+  let at = 0;
+  SEATS.slice(1).forEach((id) => apply({ type: "join", playerId: id, playerName: id, at }));
+  SEATS.forEach((id) => apply({ type: "set_ready", playerId: id, ready: true, at }));
+  apply({ type: "start", playerId: SEATS[0], at });
+
+  for (let turn = 0; turn < 500 && state.phase !== "finished"; turn++) {
+    at += 1000;
+    if (state.phase === "playing") {
+      const player = state.players.find(p => p.id === state.currentPlayerId)!;
+      const card = player.cards[0];
+      const rank = state.requiredRank ?? ("rank" in card ? card.rank : "A");
+      apply({ type: "play_cards", playerId: player.id, cardIds: [card.id], claim: { rank, count: 1 }, at });
+    } else if (state.phase === "accusation") {
+      const accuser = state.players.find(p => p.id === state.currentPlayerId)!;
+      if (turn % 5 === 0) {
+        apply({ type: "accuse", playerId: accuser.id, targetId: state.lastPlayerId!, at: state.challengeDeadline! - 1 });
+      } else {
+        apply({ type: "close_challenge", at: state.challengeDeadline! });
+      }
+    } else if (state.phase === "revelation") {
+      SEATS.forEach((id) => apply({ type: "continue", playerId: id, at }));
+    } else if (state.phase === "intermission") {
+      apply({ type: "next_round", playerId: SEATS[0], at });
+    }
+  }
+  return { records, states };
+}
+
+describe("replayGame", () => {
+  it("rebuilds every state of a game from its action log", () => {
+    const { records, states } = recordGame(123456789012345);
+    expect(states[states.length - 1].phase).toBe("finished");
+    expect(replayGame(records)).toEqual(states);
+  });
+
+  it("survives the log going through JSON, as it does in storage", () => {
+    const { records, states } = recordGame(987654321);
+    expect(replayGame(JSON.parse(JSON.stringify(records)))).toEqual(states);
+  });
+});
+
+describe("finishedRecords", () => {
+  it("keeps the matches that are over out of the one being played", () => {
+    const { records, states } = recordGame(2024);
+    const rematch: ActionRecord = {
+      seq: records.length,
+      seed: actionSeed(states[states.length - 1]),
+      action: { type: "rematch", playerId: SEATS[0], seed: 77, at: 0 },
+    };
+    const ready: ActionRecord = { ...rematch, seq: records.length + 1, action: { type: "set_ready", playerId: SEATS[1], ready: true, at: 0 } };
+
+    expect(finishedRecords(records, "finished")).toEqual(records);
+    expect(finishedRecords([...records, rematch, ready], "waiting")).toEqual(records);
+    expect(finishedRecords(records.slice(0, 5), "playing")).toBeUndefined();
+  });
+});
+
+describe("seeds", () => {
+  const dealt = (seed: number) => recordGame(seed).states.find(s => s.phase === "playing")!;
+
+  it("deals the same hands and draw pile from the same seed", () => {
+    const first = dealt(2024);
+    const second = dealt(2024);
+    expect(second.players.map(p => p.cards)).toEqual(first.players.map(p => p.cards));
+    expect(second.drawPile).toEqual(first.drawPile);
+  });
+
+  it("deals differently from another seed", () => {
+    expect(dealt(2025).players.map(p => p.cards)).not.toEqual(dealt(2024).players.map(p => p.cards));
+  });
+
+  it("plays a rematch from the seed the server supplies", () => {
+    const { states } = recordGame(2024);
+    const finished = states[states.length - 1];
+    const rematch = applyAction(finished, { type: "rematch", playerId: SEATS[0], seed: 77, at: 0 }, createRng(1));
+    expect(rematch).not.toBeInstanceOf(RuleError);
+    expect((rematch as { state: GameState }).state.seed).toBe(77);
+  });
+
+  it("derives a different seed for every action", () => {
+    const seeds = new Set(Array.from({ length: 1000 }, (_, index) => deriveSeed(42, index)));
+    expect(seeds.size).toBe(1000);
+  });
+});
@@ -0,0 +1,55 @@
+import type { GamePhase, GameState } from "../schema";
+import { applyAction, createGame } from "./apply";
+import { createRng } from "./random";
+import { RuleError, type ActionRecord } from "./types";
+
+// Rebuilds the state after each record of a game's action log. The first
+// record must be the game's "create" action.
+export function replayGame(records: ActionRecord[]): GameState[] {
+  const states: GameState[] = [];
+
+  for (const record of records) {
+    const { action } = record;
+    const rng = createRng(record.seed);
+
+    if (action.type === "create") {
+      if (states.length > 0) {
+        throw new Error(`Unexpected create action at seq ${record.seq}`);
+      }
+      const created = createGame(action, rng);
+      if (created instanceof RuleError) {
+        throw new Error(`Game could not be created on replay: ${created.message}`);
+      }
+      states.push(created.state);
+      continue;
+    }
+
+    const previous = states[states.length - 1];
+    if (!previous) {
+      throw new Error("Action log does not start with a create action");
+    }
+    const result = applyAction(previous, action, rng);
+    if (result instanceof RuleError) {
+      throw new Error(`Action ${record.seq} (${action.type}) was rejected on replay: ${result.message}`);
+    }
+    states.push(result.state);
+  }
+
+  return states;
+}
+
+export function rebuildGame(records: ActionRecord[]): GameState | undefined {
+  const states = replayGame(records);
+  return states[states.length - 1];
+}
+
+// The part of a game's log covering matches that are over: all of it once
+// the game is finished, otherwise everything before the rematch that opened
+// the match being played. Undefined while the first match is still on.
+export function finishedRecords(records: ActionRecord[], phase: GamePhase): ActionRecord[] | undefined {
+  if (phase === "finished") {
+    return records;
+  }
+  const rematch = records.map(r => r.action.type).lastIndexOf("rematch");
+  return rematch === -1 ? undefined : records.slice(0, rematch);
+}
@@ -0,0 +1,169 @@
+import { RANK_LABELS } from "../cards";
+import type { Card, CardRank, Claim, GamePhase, GameSettings, GameVariant, Presence } from "../schema";
+import { countDeckCards } from "./deck";
+import { RuleError, type ActionOf } from "./types";
+
+// The part of a game both the full server state and a player's projection
+// expose, so the same checks can run on either side.
+export interface TableState {
+  variant: GameVariant;
+  phase: GamePhase;
+  players: { id: string; cardCount: number; presence: Presence }[];
+  currentPlayerId: string;
+  requiredRank?: CardRank;
+  lastPlayerId?: string;
+  lastClaim?: Claim;
+}
+
+export function isConnected(player: { presence: Presence }): boolean {
+  return player.presence !== "disconnected";
+}
+
+// Connected and not reported away: someone the table waits for
+export function isAttending(player: { presence: Presence }): boolean {
+  return player.presence === "online" || player.presence === "idle";
+}
+
+export function getNextPlayerId(table: TableState, playerId: string): string | undefined {
+  const currentIndex = table.players.findIndex(p => p.id === playerId);
+  if (currentIndex === -1) return undefined;
+
+  // Disconnected seats are skipped while somebody is still connected
+  for (let step = 1; step <= table.players.length; step++) {
+    const candidate = table.players[(currentIndex + step) % table.players.length];
+    if (isConnected(candidate)) {
+      return candidate.id;
+    }
+  }
+
+  const nextIndex = (currentIndex + 1) % table.players.length;
+  return table.players[nextIndex].id;
+}
+
+export function isPlayerTurn(table: TableState, playerId: string): boolean {
+  return table.currentPlayerId === playerId && table.phase === "playing";
+}
+
+export function canPlayerAccuse(table: TableState, playerId: string): boolean {
+  return !!(
+    table.lastPlayerId &&
+    table.lastPlayerId !== playerId &&
+    table.phase === "accusation"
+  );
+}
+
+export function validatePlay(
+  table: TableState,
+  action: Pick<ActionOf<"play_cards">, "playerId" | "cardIds" | "claim">,
+  hand: Card[],
+): RuleError | undefined {
+  if (table.phase === "finished") {
+    return new RuleError("game_finished", "Game is finished");
+  }
+  if (table.phase !== "playing") {
+    return new RuleError("wrong_phase", "Cards cannot be played right now");
+  }
+  if (!table.players.some(p => p.id === action.playerId)) {
+    return new RuleError("player_not_found", "Player not found");
+  }
+  if (table.currentPlayerId !== action.playerId) {
+    return new RuleError("not_your_turn", "Not your turn");
+  }
+  if (new Set(action.cardIds).size !== action.cardIds.length) {
+    return new RuleError("duplicate_card", "Duplicate card");
+  }
+  if (!action.cardIds.every(id => hand.some(c => c.id === id))) {
+    return new RuleError("card_not_found", "Card not found");
+  }
+
+  if (table.variant === "classic") {
+    if (action.cardIds.length !== 1) {
+      return new RuleError("invalid_card_count", "Only one card can be played at a time");
+    }
+    return undefined;
+  }
+
+  if (!action.claim) {
+    return new RuleError("claim_required", "A claim is required");
+  }
+  if (action.claim.count !== action.cardIds.length) {
+    return new RuleError("claim_mismatch", "Claim count does not match the number of cards played");
+  }
+  if (table.requiredRank && action.claim.rank !== table.requiredRank) {
+    return new RuleError("wrong_rank", `You must announce ${RANK_LABELS[table.requiredRank].plural}`);
+  }
+  return undefined;
+}
+
+// Everything that must hold for a "Menteur!" call to be accepted. The
+// deadline of the challenge window is checked by the engine, which knows
+// when the action happened.
+export function validateAccusation(
+  table: TableState,
+  action: Pick<ActionOf<"accuse">, "playerId" | "targetId">,
+): RuleError | undefined {
+  if (table.phase === "revelation") {
+    return new RuleError("already_revealed", "These cards have already been revealed");
+  }
+  if (!table.lastPlayerId) {
+    return new RuleError("nothing_to_accuse", "No card to accuse");
+  }
+  if (table.phase !== "accusation") {
+    return new RuleError("challenge_closed", "The challenge window is closed");
+  }
+
+  const accuser = table.players.find(p => p.id === action.playerId);
+  if (!accuser) {
+    return new RuleError("not_seated", "Only seated players can accuse");
+  }
+  if (!isConnected(accuser)) {
+    return new RuleError("accuser_offline", "Disconnected players cannot accuse");
+  }
+  if (accuser.id === table.lastPlayerId) {
+    return new RuleError("self_accusation", "You cannot accuse yourself");
+  }
+  if (!table.players.some(p => p.id === action.targetId)) {
+    return new RuleError("player_not_found", "Player not found");
+  }
+  if (action.targetId !== table.lastPlayerId) {
+    return new RuleError("stale_accusation", "Only the latest play can be challenged");
+  }
+  return undefined;
+}
+
+// What the waiting room needs to know to decide whether a game can start
+export interface LobbyState {
+  phase: GamePhase;
+  hostId: string;
+  settings: Pick<GameSettings, "minPlayers">;
+  players: { id: string; isReady: boolean }[];
+}
+
+export function countReadyPlayers(lobby: LobbyState): number {
+  return lobby.players.filter(p => p.isReady).length;
+}
+
+export function validateStart(lobby: LobbyState, playerId: string): RuleError | undefined {
+  if (lobby.phase !== "waiting") {
+    return new RuleError("game_started", "Game has already started");
+  }
+  if (lobby.hostId !== playerId) {
+    return new RuleError("not_host", "Only the host can start the game");
+  }
+  if (countReadyPlayers(lobby) < lobby.settings.minPlayers) {
+    return new RuleError("not_enough_ready", `At least ${lobby.settings.minPlayers} players must be ready`);
+  }
+  return undefined;
+}
+
+// Every seat must be able to get a full hand, and shrinking the table
+// cannot leave players without a seat
+export function validateSettings(variant: GameVariant, settings: GameSettings, seated = 1): RuleError | undefined {
+  if (countDeckCards(variant, settings.deck) < settings.handSize * settings.maxPlayers) {
+    return new RuleError("deck_too_small", "The deck cannot deal a full hand to every seat");
+  }
+  if (seated > settings.maxPlayers) {
+    return new RuleError("too_many_seated", "More players are already seated than the new maximum");
+  }
+  return undefined;
+}
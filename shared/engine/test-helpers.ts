@@ -0,0 +1,45 @@
+import { GameSettings, type GameState } from "../schema";
+import { applyAction, createGame } from "./apply";
+import { createRng, deriveSeed } from "./random";
+import { RuleError, type CreateAction, type GameAction } from "./types";
+
+// Helpers shared by the engine and storage tests
+
+// The seed the server draws an action's randomness from
+export function actionSeed(state: GameState): number {
+  return deriveSeed(state.seed, state.version);
+}
+
+// Applies an action the way the server does, failing the test on a rule error
+export function apply(state: GameState, action: GameAction): GameState {
+  const result = applyAction(state, action, createRng(actionSeed(state)));
+  if (result instanceof RuleError) {
+    throw result;
+  }
+  return result.state;
+}
+
+// A create action for a default menteur lobby hosted by alice
+export function createAction(overrides: Partial<CreateAction> = {}): CreateAction {
+  const playerId = overrides.playerId ?? "alice";
+  return {
+    type: "create",
+    gameId: "test",
+    variant: "menteur",
+    playerId,
+    playerName: playerId,
+    settings: GameSettings.parse({}),
+    seed: 42,
+    at: 0,
+    ...overrides,
+  };
+}
+
+// The lobby a create action opens, with only the host seated
+export function newGame(create: CreateAction = createAction()): GameState {
+  const created = createGame(create, createRng(deriveSeed(create.seed, 0)));
+  if (created instanceof RuleError) {
+    throw created;
+  }
+  return created.state;
+}
@@ -0,0 +1,233 @@
+import { z } from "zod";
+import { BotStrategyName, Claim, GameSettings, GameVariant, ReportedPresence, type GameEvent, type GameState } from "../schema";
+
+// Random source used for every shuffle and draw. Returns a float in [0, 1).
+export type Rng = () => number;
+
+export const JoinAction = z.object({
+  type: z.literal("join"),
+  playerId: z.string(),
+  playerName: z.string().min(1).max(20),
+  at: z.number(),
+});
+
+export const LeaveAction = z.object({
+  type: z.literal("leave"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+export const SetReadyAction = z.object({
+  type: z.literal("set_ready"),
+  playerId: z.string(),
+  ready: z.boolean(),
+  at: z.number(),
+});
+
+// Replaces the house rules while the game is still in the waiting room
+export const UpdateSettingsAction = z.object({
+  type: z.literal("update_settings"),
+  playerId: z.string(),
+  settings: GameSettings,
+  at: z.number(),
+});
+
+// Seats a server-driven player from the waiting room (host only)
+export const AddBotAction = z.object({
+  type: z.literal("add_bot"),
+  playerId: z.string(),
+  botId: z.string(),
+  botName: z.string().min(1).max(20),
+  strategy: BotStrategyName,
+  at: z.number(),
+});
+
+export const RemoveBotAction = z.object({
+  type: z.literal("remove_bot"),
+  playerId: z.string(),
+  botId: z.string(),
+  at: z.number(),
+});
+
+export const StartAction = z.object({
+  type: z.literal("start"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+// Deals the next round of a match (host only)
+export const NextRoundAction = z.object({
+  type: z.literal("next_round"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+// Sends a finished match back to the waiting room with the same room code.
+// The seed of the finished match is public by then, so the next one gets a
+// fresh seed drawn by the server.
+export const RematchAction = z.object({
+  type: z.literal("rematch"),
+  playerId: z.string(),
+  seed: z.number().int().min(0),
+  at: z.number(),
+});
+
+export const PlayCardsAction = z.object({
+  type: z.literal("play_cards"),
+  playerId: z.string(),
+  cardIds: z.array(z.string()).min(1).max(4),
+  claim: Claim.optional(),
+  at: z.number(),
+});
+
+export const AccuseAction = z.object({
+  type: z.literal("accuse"),
+  playerId: z.string(),
+  targetId: z.string(),
+  at: z.number(),
+});
+
+export const ContinueAction = z.object({
+  type: z.literal("continue"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+// Sent by the server when a seat's last socket closes, and when it comes back
+export const DisconnectAction = z.object({
+  type: z.literal("disconnect"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+export const ReconnectAction = z.object({
+  type: z.literal("reconnect"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+// Sent by the server when a connected player's client reports activity
+export const SetPresenceAction = z.object({
+  type: z.literal("set_presence"),
+  playerId: z.string(),
+  presence: ReportedPresence,
+  at: z.number(),
+});
+
+// Sent by the server once the current turn deadline has passed
+export const TurnTimeoutAction = z.object({
+  type: z.literal("turn_timeout"),
+  playerId: z.string(),
+  at: z.number(),
+});
+
+// Submitted by the server when a challenge window runs out unchallenged
+export const CloseChallengeAction = z.object({
+  type: z.literal("close_challenge"),
+  at: z.number(),
+});
+
+// Submitted by the server when nobody finished reading a revelation in time
+export const CloseRevelationAction = z.object({
+  type: z.literal("close_revelation"),
+  at: z.number(),
+});
+
+export const GameAction = z.discriminatedUnion("type", [
+  JoinAction,
+  LeaveAction,
+  SetReadyAction,
+  UpdateSettingsAction,
+  AddBotAction,
+  RemoveBotAction,
+  StartAction,
+  NextRoundAction,
+  RematchAction,
+  PlayCardsAction,
+  AccuseAction,
+  ContinueAction,
+  TurnTimeoutAction,
+  CloseChallengeAction,
+  CloseRevelationAction,
+  DisconnectAction,
+  ReconnectAction,
+  SetPresenceAction,
+]);
+export type GameAction = z.infer<typeof GameAction>;
+export type ActionOf<T extends GameAction["type"]> = Extract<GameAction, { type: T }>;
+
+// Opens the log of every game; the player is the host
+export const CreateAction = z.object({
+  type: z.literal("create"),
+  gameId: z.string(),
+  variant: GameVariant,
+  playerId: z.string(),
+  playerName: z.string().min(1).max(20),
+  settings: GameSettings,
+  // Seed every random draw of the game derives from
+  seed: z.number().int().min(0),
+  at: z.number(),
+});
+export type CreateAction = z.infer<typeof CreateAction>;
+
+export const RecordedAction = z.discriminatedUnion("type", [CreateAction, ...GameAction.options]);
+export type RecordedAction = z.infer<typeof RecordedAction>;
+
+// One accepted action with the seed its random draws came from. Folding a
+// game's records in seq order rebuilds its state exactly.
+export const ActionRecord = z.object({
+  seq: z.number().int().min(0),
+  seed: z.number().int().min(0),
+  action: RecordedAction,
+});
+export type ActionRecord = z.infer<typeof ActionRecord>;
+
+export type RuleErrorCode =
+  | "game_finished"
+  | "game_full"
+  | "game_started"
+  | "not_host"
+  | "not_enough_ready"
+  | "match_not_finished"
+  | "deck_too_small"
+  | "too_many_seated"
+  | "not_a_bot"
+  | "wrong_phase"
+  | "already_joined"
+  | "player_not_found"
+  | "not_your_turn"
+  | "duplicate_card"
+  | "card_not_found"
+  | "invalid_card_count"
+  | "claim_required"
+  | "claim_mismatch"
+  | "wrong_rank"
+  | "nothing_to_accuse"
+  | "challenge_closed"
+  | "stale_accusation"
+  | "self_accusation"
+  | "already_revealed"
+  | "not_seated"
+  | "accuser_offline"
+  | "challenge_not_expired"
+  | "revelation_not_expired"
+  | "turn_not_expired";
+
+// Returned (not thrown) by the engine when an action breaks the rules
+export class RuleError extends Error {
+  constructor(public readonly code: RuleErrorCode, message: string) {
+    super(message);
+    this.name = "RuleError";
+  }
+}
+
+export interface EngineResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export const GameReplay = z.object({
+  gameId: z.string(),
+  actions: z.array(ActionRecord),
+});
+export type GameReplay = z.infer<typeof GameReplay>;
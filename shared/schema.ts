@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, json, jsonb, bigint, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { RecordedAction } from "./engine/types";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -21,57 +22,257 @@ export type User = typeof users.$inferSelect;
 export const CardType = z.enum(["truth", "lie"]);
 export type CardType = z.infer<typeof CardType>;
 
-export const Card = z.object({
+export const CardRank = z.enum(["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"]);
+export type CardRank = z.infer<typeof CardRank>;
+
+export const CardSuit = z.enum(["hearts", "diamonds", "clubs", "spades"]);
+export type CardSuit = z.infer<typeof CardSuit>;
+
+// "classic" plays truth/lie cards, "menteur" plays a standard deck with announced ranks
+export const GameVariant = z.enum(["classic", "menteur"]);
+export type GameVariant = z.infer<typeof GameVariant>;
+
+export const ClassicCard = z.object({
   id: z.string(),
   type: CardType,
 });
+export type ClassicCard = z.infer<typeof ClassicCard>;
+
+export const RankedCard = z.object({
+  id: z.string(),
+  rank: CardRank,
+  suit: CardSuit,
+});
+export type RankedCard = z.infer<typeof RankedCard>;
+
+export const Card = z.union([ClassicCard, RankedCard]);
 export type Card = z.infer<typeof Card>;
 
+// What a player announces when laying cards face down, e.g. "three Queens"
+export const Claim = z.object({
+  rank: CardRank,
+  count: z.number().int().min(1).max(4),
+});
+export type Claim = z.infer<typeof Claim>;
+
+// How a server-driven seat plays; see shared/bots
+export const BotStrategyName = z.enum(["random", "cautious", "aggressive", "probabilistic"]);
+export type BotStrategyName = z.infer<typeof BotStrategyName>;
+
+// "idle" and "away" come from the player's own client; only the server
+// marks a seat "disconnected", when its last socket closes or stops
+// answering heartbeats
+export const Presence = z.enum(["online", "idle", "away", "disconnected"]);
+export type Presence = z.infer<typeof Presence>;
+
+export const ReportedPresence = Presence.exclude(["disconnected"]);
+export type ReportedPresence = z.infer<typeof ReportedPresence>;
+
 export const Player = z.object({
   id: z.string(),
   name: z.string(),
   cardCount: z.number(),
   cards: z.array(Card),
   avatar: z.string(),
-  isOnline: z.boolean(),
+  presence: Presence,
+  // Set from the waiting room; the host can start once enough seats are ready
+  isReady: z.boolean().default(false),
+  // Consecutive turns that ran out without the player acting
+  timeouts: z.number().default(0),
+  // Set on bot seats, which the server plays
+  bot: BotStrategyName.optional(),
+  // When the seat dropped; its reconnect grace counts from there
+  disconnectedAt: z.number().optional(),
 });
 export type Player = z.infer<typeof Player>;
 
-export const GamePhase = z.enum(["waiting", "playing", "accusation", "revelation", "finished"]);
+// "intermission" sits between the rounds of a match, "finished" ends the match
+export const GamePhase = z.enum(["waiting", "playing", "accusation", "revelation", "intermission", "finished"]);
 export type GamePhase = z.infer<typeof GamePhase>;
 
+// What happens when the current player lets their turn run out
+export const TimeoutPolicy = z.object({
+  action: z.enum(["auto_play", "skip", "penalty"]),
+  // Remove the player after this many consecutive timeouts (0 = never)
+  kickAfter: z.number().int().min(0).max(10),
+});
+export type TimeoutPolicy = z.infer<typeof TimeoutPolicy>;
+
+// How the loser of a challenge is punished: taking the center pile, drawing
+// a fixed number of cards, or both
+export const ChallengePenalty = z.enum(["pile", "fixed", "both"]);
+export type ChallengePenalty = z.infer<typeof ChallengePenalty>;
+
+// Truth/lie card counts for the classic variant; for menteur, the number of
+// 52-card packs shuffled together
+export const DeckComposition = z.object({
+  truthCards: z.number().int().min(0).max(60).default(30),
+  lieCards: z.number().int().min(0).max(60).default(30),
+  packs: z.number().int().min(1).max(3).default(1),
+});
+export type DeckComposition = z.infer<typeof DeckComposition>;
+
+// House rules picked by the host. They can change in the waiting room and
+// are locked once the game starts.
+export const GameSettings = z.object({
+  handSize: z.number().int().min(1).max(15).default(7),
+  deck: DeckComposition.default({}),
+  // Cards drawn by the loser of a challenge ("fixed" penalty) or on a timeout
+  penaltySize: z.number().int().min(1).max(10).default(3),
+  // Seconds per turn
+  turnTimer: z.number().int().min(10).max(300).default(45),
+  minPlayers: z.number().int().min(2).max(8).default(2),
+  maxPlayers: z.number().int().min(2).max(8).default(6),
+  timeoutPolicy: TimeoutPolicy.default({ action: "auto_play", kickAfter: 3 }),
+  // Seconds the other players get to call "Menteur!" after each play
+  challengeWindow: z.number().int().min(1).max(30).default(5),
+  challengePenalty: ChallengePenalty.default("pile"),
+  // Seconds a revelation stays up if not everyone acknowledges it
+  revelationDelay: z.number().int().min(1).max(60).default(10),
+  // When set, emptying your hand only wins once the last play survives its
+  // challenge window
+  lastCardChallengeable: z.boolean().default(false),
+  rounds: z.number().int().min(1).max(10).default(1),
+  allowSpectators: z.boolean().default(true),
+  // Seconds spectators lag behind the table, to keep them from coaching a
+  // seated player live
+  spectatorDelay: z.number().int().min(0).max(30).default(0),
+}).refine((settings) => settings.minPlayers <= settings.maxPlayers, {
+  message: "minPlayers cannot exceed maxPlayers",
+  path: ["minPlayers"],
+});
+export type GameSettings = z.infer<typeof GameSettings>;
+export type GameSettingsInput = z.input<typeof GameSettings>;
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = GameSettings.parse({});
+
 export const GameEvent = z.object({
   id: z.string(),
-  type: z.enum(["card_played", "accusation", "revelation", "penalty", "join", "leave", "game_start"]),
+  type: z.enum(["card_played", "accusation", "revelation", "penalty", "join", "leave", "game_start", "timeout", "ready", "round_end", "match_end", "rematch", "settings"]),
   playerId: z.string(),
   playerName: z.string(),
   targetId: z.string().optional(),
   targetName: z.string().optional(),
   cardType: CardType.optional(),
+  claim: Claim.optional(),
+  // Cards that changed hands, for pickups and penalty draws
+  cardCount: z.number().optional(),
   timestamp: z.number(),
   message: z.string(),
 });
 export type GameEvent = z.infer<typeof GameEvent>;
 
+// Cards left in each hand when a round ends, counted as penalty points
+export const RoundResult = z.object({
+  round: z.number(),
+  winnerId: z.string(),
+  penalties: z.record(z.string(), z.number()),
+});
+export type RoundResult = z.infer<typeof RoundResult>;
+
+// A match is a series of rounds played by the same seats. The lowest
+// cumulative score after the last round wins.
+export const MatchState = z.object({
+  // Current round, 1-based; 0 until the first deal
+  round: z.number().int().min(0),
+  scores: z.record(z.string(), z.number()),
+  results: z.array(RoundResult),
+  winnerId: z.string().optional(),
+});
+export type MatchState = z.infer<typeof MatchState>;
+
 export const GameState = z.object({
   id: z.string(),
+  variant: GameVariant.default("classic"),
   phase: GamePhase,
+  // The creator of the game; only they can start it
+  hostId: z.string(),
+  settings: GameSettings,
+  // Kept from players until the game is finished, since it determines every
+  // deal and draw
+  seed: z.number().int().min(0),
+  // Actions applied so far, including the create action. Every change of the
+  // state bumps it, and it numbers the seed of the next action.
+  version: z.number().int().min(0),
   players: z.array(Player),
   currentPlayerId: z.string(),
+  // Rest of the game's single deck after the deal; penalties draw from it
+  drawPile: z.array(Card),
   centerPile: z.array(Card),
-  lastPlayedCard: Card.optional(),
+  requiredRank: CardRank.optional(),
+  lastPlayedCards: z.array(Card),
+  lastClaim: Claim.optional(),
   lastPlayerId: z.string().optional(),
   accusingPlayerId: z.string().optional(),
-  revealedCard: Card.optional(),
+  revealedCards: z.array(Card),
   events: z.array(GameEvent),
-  turnTimer: z.number(),
-  maxPlayers: z.number().default(6),
-  minPlayers: z.number().default(2),
+  // Epoch milliseconds at which the current turn times out, while playing
+  turnDeadline: z.number().optional(),
+  // Epoch milliseconds at which the open challenge window closes
+  challengeDeadline: z.number().optional(),
+  // Epoch milliseconds at which the revelation closes on its own
+  revelationDeadline: z.number().optional(),
+  // Players who have acknowledged the current revelation
+  revelationAcks: z.array(z.string()).default([]),
+  match: MatchState,
 });
 export type GameState = z.infer<typeof GameState>;
 
+// Per-viewer projections of a game: only what that seat is allowed to see
+export const PublicPlayer = Player.omit({ cards: true });
+export type PublicPlayer = z.infer<typeof PublicPlayer>;
+
+export const PlayerView = z.object({
+  id: z.string(),
+  // Version of the game state this view was built from
+  version: z.number().int().min(0),
+  variant: GameVariant,
+  viewerId: z.string().optional(),
+  phase: GamePhase,
+  hostId: z.string(),
+  settings: GameSettings,
+  // Only sent once the game is finished
+  seed: z.number().optional(),
+  players: z.array(PublicPlayer),
+  hand: z.array(Card),
+  currentPlayerId: z.string(),
+  drawPileCount: z.number(),
+  centerPileCount: z.number(),
+  requiredRank: CardRank.optional(),
+  lastClaim: Claim.optional(),
+  lastPlayerId: z.string().optional(),
+  accusingPlayerId: z.string().optional(),
+  revealedCards: z.array(Card),
+  events: z.array(GameEvent),
+  turnDeadline: z.number().optional(),
+  challengeDeadline: z.number().optional(),
+  revelationDeadline: z.number().optional(),
+  revelationAcks: z.array(z.string()),
+  match: MatchState,
+  // Server clock when the view was built, used to correct the client clock
+  serverTime: z.number(),
+});
+export type PlayerView = z.infer<typeof PlayerView>;
+
+// What changed between two views sent to the same client. Applies only on
+// top of the view at version `base`.
+export const ViewPatch = z.object({
+  base: z.number().int().min(0),
+  // Fields that changed, replaced whole
+  set: PlayerView.partial(),
+  // Fields that are no longer set
+  unset: z.array(PlayerView.keyof()).optional(),
+  // Events logged since the base view, unless `set` replaces them all
+  events: z.array(GameEvent).optional(),
+});
+export type ViewPatch = z.infer<typeof ViewPatch>;
+
 export const CreateGameRequest = z.object({
   playerName: z.string().min(1).max(20),
+  variant: GameVariant.default("classic"),
+  settings: GameSettings.default({}),
+  // Fixed game seed, accepted in development only to reproduce games
+  seed: z.number().int().min(0).max(Number.MAX_SAFE_INTEGER).optional(),
 });
 export type CreateGameRequest = z.infer<typeof CreateGameRequest>;
 
@@ -81,10 +282,26 @@ export const JoinGameRequest = z.object({
 });
 export type JoinGameRequest = z.infer<typeof JoinGameRequest>;
 
+export const ReadyRequest = z.object({
+  ready: z.boolean(),
+});
+export type ReadyRequest = z.infer<typeof ReadyRequest>;
+
+export const AddBotRequest = z.object({
+  strategy: BotStrategyName,
+});
+export type AddBotRequest = z.infer<typeof AddBotRequest>;
+
+export const UpdateSettingsRequest = z.object({
+  settings: GameSettings,
+});
+export type UpdateSettingsRequest = z.infer<typeof UpdateSettingsRequest>;
+
 export const PlayCardRequest = z.object({
   gameId: z.string(),
   playerId: z.string(),
-  cardId: z.string(),
+  cardIds: z.array(z.string()).min(1).max(4),
+  claim: Claim.optional(),
 });
 export type PlayCardRequest = z.infer<typeof PlayCardRequest>;
 
@@ -95,8 +312,148 @@ export const AccusePlayerRequest = z.object({
 });
 export type AccusePlayerRequest = z.infer<typeof AccusePlayerRequest>;
 
-export const WebSocketMessage = z.object({
-  type: z.enum(["game_state", "player_joined", "player_left", "card_played", "accusation", "revelation", "error"]),
-  data: z.any(),
+// WebSocket protocol. Both ends validate every frame they receive against
+// these unions; the server answers a bad frame with an error frame.
+
+// Moves sent over the socket for the seat it joined. The server answers each
+// one with an ack or a nack carrying the same requestId.
+const CommandId = z.string().min(1).max(64);
+export const GameCommand = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("play_card"),
+    requestId: CommandId,
+    cardIds: z.array(z.string()).min(1).max(4),
+    claim: Claim.optional(),
+  }),
+  z.object({
+    type: z.literal("accuse"),
+    requestId: CommandId,
+    targetId: z.string(),
+  }),
+  z.object({
+    type: z.literal("continue"),
+    requestId: CommandId,
+  }),
+  z.object({
+    type: z.literal("ready"),
+    requestId: CommandId,
+    ready: z.boolean(),
+  }),
+]);
+export type GameCommand = z.infer<typeof GameCommand>;
+
+export const ClientMessage = z.discriminatedUnion("type", [
+  // Attach the socket to a seat, proven by the seat's session token
+  z.object({
+    type: z.literal("join_game"),
+    gameId: z.string(),
+    playerId: z.string(),
+    token: z.string(),
+  }),
+  // Follow a game without a seat
+  z.object({
+    type: z.literal("watch_game"),
+    gameId: z.string(),
+  }),
+  // Ask for a whole view after missing a patch
+  z.object({
+    type: z.literal("resync"),
+  }),
+  // Whether the player behind a joined socket is active, idle or away
+  z.object({
+    type: z.literal("presence"),
+    presence: ReportedPresence,
+  }),
+  ...GameCommand.options,
+]);
+export type ClientMessage = z.infer<typeof ClientMessage>;
+
+export const ProtocolErrorCode = z.enum(["invalid_message", "invalid_token", "game_not_found", "spectators_not_allowed", "not_joined", "already_seated"]);
+export type ProtocolErrorCode = z.infer<typeof ProtocolErrorCode>;
+
+// Every update of the game carries the receiver's own projection, whole or
+// as a patch on the last one it was sent
+const GameViewData = z.union([
+  z.object({ view: PlayerView }),
+  z.object({ patch: ViewPatch }),
+]);
+export type GameViewData = z.infer<typeof GameViewData>;
+
+export const ServerMessage = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("game_state"), data: GameViewData }),
+  z.object({ type: z.literal("card_played"), data: GameViewData }),
+  z.object({ type: z.literal("accusation"), data: GameViewData }),
+  z.object({ type: z.literal("revelation"), data: GameViewData }),
+  z.object({ type: z.literal("player_joined"), data: z.intersection(GameViewData, z.object({ player: PublicPlayer })) }),
+  z.object({ type: z.literal("player_left"), data: z.object({ playerId: z.string() }) }),
+  z.object({ type: z.literal("spectators"), data: z.object({ count: z.number().int().min(0) }) }),
+  z.object({ type: z.literal("error"), data: z.object({ message: z.string(), code: ProtocolErrorCode }) }),
+  // The command was applied; the sender's view comes with the ack rather
+  // than with the broadcast
+  z.object({ type: z.literal("ack"), data: z.object({ requestId: z.string(), view: PlayerView }) }),
+  // The command was refused, with a rule or protocol error code
+  z.object({ type: z.literal("nack"), data: z.object({ requestId: z.string(), message: z.string(), code: z.string() }) }),
+]);
+export type ServerMessage = z.infer<typeof ServerMessage>;
+export type GameViewMessage = Extract<ServerMessage, { type: "game_state" | "card_played" | "accusation" | "revelation" | "player_joined" }>;
+
+// Game persistence (PgStorage). The games row keeps the table-level fields,
+// seats, hands and piles are stored card by card, and the log is append-only.
+type PersistedCollections = "id" | "variant" | "phase" | "currentPlayerId" | "players" | "drawPile" | "centerPile" | "lastPlayedCards" | "revealedCards" | "events";
+export type GameTableState = Omit<GameState, PersistedCollections>;
+
+export const games = pgTable("games", {
+  id: varchar("id").primaryKey(),
+  variant: text("variant").$type<GameVariant>().notNull(),
+  phase: text("phase").$type<GamePhase>().notNull(),
+  currentPlayerId: varchar("current_player_id").notNull(),
+  state: jsonb("state").$type<GameTableState>().notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+});
+
+export const gameSeats = pgTable("game_seats", {
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: varchar("player_id").notNull(),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  player: jsonb("player").$type<Omit<Player, "id" | "name" | "cards">>().notNull(),
+}, (table) => [primaryKey({ columns: [table.gameId, table.playerId] })]);
+
+export const gameHands = pgTable("game_hands", {
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: varchar("player_id").notNull(),
+  position: integer("position").notNull(),
+  cardId: varchar("card_id").notNull(),
+  card: jsonb("card").$type<Card>().notNull(),
+}, (table) => [primaryKey({ columns: [table.gameId, table.playerId, table.position] })]);
+
+export const GamePileKind = z.enum(["draw", "center", "last_played", "revealed"]);
+export type GamePileKind = z.infer<typeof GamePileKind>;
+
+export const gamePiles = pgTable("game_piles", {
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  pile: text("pile").$type<GamePileKind>().notNull(),
+  position: integer("position").notNull(),
+  cardId: varchar("card_id").notNull(),
+  card: jsonb("card").$type<Card>().notNull(),
+}, (table) => [primaryKey({ columns: [table.gameId, table.pile, table.position] })]);
+
+export const gameEvents = pgTable("game_events", {
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  seq: integer("seq").notNull(),
+  event: jsonb("event").$type<GameEvent>().notNull(),
+}, (table) => [primaryKey({ columns: [table.gameId, table.seq] })]);
+
+// Source of truth for replays; see ActionRecord in shared/engine
+export const gameActions = pgTable("game_actions", {
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  seq: integer("seq").notNull(),
+  seed: bigint("seed", { mode: "number" }).notNull(),
+  action: jsonb("action").$type<RecordedAction>().notNull(),
+}, (table) => [primaryKey({ columns: [table.gameId, table.seq] })]);
+
+export const playerSessions = pgTable("player_sessions", {
+  token: varchar("token").primaryKey(),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: varchar("player_id").notNull(),
 });
-export type WebSocketMessage = z.infer<typeof WebSocketMessage>;
@@ -0,0 +1,69 @@
+import type { GameViewData, PlayerView, ViewPatch } from "./schema";
+
+type ViewKey = keyof PlayerView;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The log only grows between two views, except when a game starts over
+function isAppendOnly(from: PlayerView["events"], to: PlayerView["events"]): boolean {
+  return from.length <= to.length && from.every((event, index) => event.id === to[index].id);
+}
+
+// Patch turning `from` into `to`, both projected for the same viewer
+export function diffViews(from: PlayerView, to: PlayerView): ViewPatch {
+  const set: Partial<PlayerView> = {};
+  const unset: ViewKey[] = [];
+
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)] as ViewKey[]);
+  keys.forEach((key) => {
+    if (key === "events") {
+      return;
+    }
+    if (to[key] === undefined) {
+      if (from[key] !== undefined) {
+        unset.push(key);
+      }
+    } else if (!sameValue(from[key], to[key])) {
+      (set as Record<ViewKey, unknown>)[key] = to[key];
+    }
+  });
+
+  const patch: ViewPatch = { base: from.version, set };
+  if (unset.length > 0) {
+    patch.unset = unset;
+  }
+  if (!isAppendOnly(from.events, to.events)) {
+    set.events = to.events;
+  } else if (to.events.length > from.events.length) {
+    patch.events = to.events.slice(from.events.length);
+  }
+  return patch;
+}
+
+// Undefined when the patch was made for another version than `view`: the
+// client missed an update and has to ask for a whole view
+export function applyViewPatch(view: PlayerView, patch: ViewPatch): PlayerView | undefined {
+  if (view.version !== patch.base) {
+    return undefined;
+  }
+
+  const next: PlayerView = { ...view, ...patch.set };
+  patch.unset?.forEach((key) => {
+    delete (next as Partial<PlayerView>)[key];
+  });
+  if (patch.events) {
+    next.events = [...next.events, ...patch.events];
+  }
+  return next;
+}
+
+// The view a game update leaves the client with, or undefined if it needs a
+// resync
+export function applyViewUpdate(current: PlayerView | undefined, update: GameViewData): PlayerView | undefined {
+  if ("view" in update) {
+    return update.view;
+  }
+  return current ? applyViewPatch(current, update.patch) : undefined;
+}